@@ -0,0 +1,9 @@
+// Jest runs setup files as CommonJS, whatever the package type
+const { devNull } = require('os');
+
+// config.ts requires PayPal credentials, which tests never send anywhere
+process.env.PAYPAL_CLIENT_ID = 'test-client-id';
+process.env.PAYPAL_CLIENT_SECRET = 'test-client-secret';
+
+// Keep expected failures from flooding the test output
+process.env.LOG_FILE = devNull;
@@ -30,11 +30,21 @@ function getOptionalEnv(key: string, defaultValue: string): string {
  */
 type PayPalEnvironment = 'sandbox' | 'live';
 
+/**
+ * MCP transport type
+ */
+type McpTransport = 'stdio' | 'http';
+
 /**
  * Log level type
  */
 type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
+/**
+ * Log format type
+ */
+type LogFormat = 'text' | 'json';
+
 /**
  * Application configuration
  */
@@ -43,17 +53,45 @@ export const config = {
     clientId: getRequiredEnv('PAYPAL_CLIENT_ID'),
     clientSecret: getRequiredEnv('PAYPAL_CLIENT_SECRET'),
     environment: getOptionalEnv('PAYPAL_ENVIRONMENT', 'sandbox') as PayPalEnvironment,
-    apiBaseUrl: getOptionalEnv('PAYPAL_ENVIRONMENT', 'sandbox') === 'sandbox'
-      ? 'https://api-m.sandbox.paypal.com'
-      : 'https://api-m.paypal.com',
+    apiBaseUrl: getOptionalEnv(
+      'PAYPAL_API_BASE_URL',
+      getOptionalEnv('PAYPAL_ENVIRONMENT', 'sandbox') === 'sandbox'
+        ? 'https://api-m.sandbox.paypal.com'
+        : 'https://api-m.paypal.com'
+    ),
     tokenCacheSeconds: parseInt(getOptionalEnv('PAYPAL_TOKEN_CACHE_SECONDS', '3500'), 10),
   },
   server: {
     logLevel: getOptionalEnv('LOG_LEVEL', 'info') as LogLevel,
+    logFormat: getOptionalEnv('LOG_FORMAT', 'text') as LogFormat,
+    logFile: getOptionalEnv('LOG_FILE', ''),
     requestTimeout: parseInt(getOptionalEnv('REQUEST_TIMEOUT', '30000'), 10),
     maxRetries: parseInt(getOptionalEnv('MAX_RETRIES', '3'), 10),
     retryDelay: parseInt(getOptionalEnv('RETRY_DELAY', '1000'), 10),
   },
+  transport: {
+    type: getOptionalEnv('MCP_TRANSPORT', 'stdio') as McpTransport,
+    httpHost: getOptionalEnv('MCP_HTTP_HOST', '0.0.0.0'),
+    httpPort: parseInt(getOptionalEnv('MCP_HTTP_PORT', '3000'), 10),
+    httpPath: getOptionalEnv('MCP_HTTP_PATH', '/mcp'),
+    authToken: getOptionalEnv('MCP_AUTH_TOKEN', ''),
+    sessionIdleTimeout: parseInt(getOptionalEnv('MCP_SESSION_IDLE_TIMEOUT', '1800000'), 10),
+  },
+  webhooks: {
+    listenerPort: parseInt(getOptionalEnv('WEBHOOK_LISTENER_PORT', '0'), 10),
+    listenerHost: getOptionalEnv('WEBHOOK_LISTENER_HOST', '0.0.0.0'),
+    listenerPath: getOptionalEnv('WEBHOOK_LISTENER_PATH', '/webhooks/paypal'),
+    webhookId: getOptionalEnv('PAYPAL_WEBHOOK_ID', ''),
+    eventStorePath: getOptionalEnv('WEBHOOK_EVENT_STORE', './data/webhook-events.jsonl'),
+  },
+  disputes: {
+    evidenceDir: getOptionalEnv('DISPUTE_EVIDENCE_DIR', './data/evidence'),
+  },
+  idempotency: {
+    storePath: getOptionalEnv('IDEMPOTENCY_STORE', './data/idempotency-keys.jsonl'),
+    ttlSeconds: parseInt(getOptionalEnv('IDEMPOTENCY_KEY_TTL_SECONDS', '86400'), 10),
+    retryWindowSeconds: parseInt(getOptionalEnv('IDEMPOTENCY_RETRY_WINDOW_SECONDS', '600'), 10),
+  },
 };
 
 // Validate PayPal environment
@@ -61,8 +99,29 @@ if (!['sandbox', 'live'].includes(config.paypal.environment)) {
   throw new Error(`Invalid PayPal environment: ${config.paypal.environment}. Must be 'sandbox' or 'live'.`);
 }
 
+// Validate MCP transport
+if (!['stdio', 'http'].includes(config.transport.type)) {
+  throw new Error(`Invalid MCP transport: ${config.transport.type}. Must be 'stdio' or 'http'.`);
+}
+
+// The HTTP transport is reachable over the network, so clients must authenticate
+if (config.transport.type === 'http' && !config.transport.authToken) {
+  throw new Error('MCP_AUTH_TOKEN is required when MCP_TRANSPORT is http');
+}
+
 // Validate log level
 if (!['error', 'warn', 'info', 'debug'].includes(config.server.logLevel)) {
   console.warn(`Invalid log level: ${config.server.logLevel}. Defaulting to 'info'.`);
   config.server.logLevel = 'info';
 }
+
+// Validate log format
+if (!['text', 'json'].includes(config.server.logFormat)) {
+  console.warn(`Invalid log format: ${config.server.logFormat}. Defaulting to 'text'.`);
+  config.server.logFormat = 'text';
+}
+
+// The webhook receiver cannot verify deliveries without the webhook ID
+if (config.webhooks.listenerPort > 0 && !config.webhooks.webhookId) {
+  throw new Error('PAYPAL_WEBHOOK_ID is required when WEBHOOK_LISTENER_PORT is set');
+}
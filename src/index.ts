@@ -10,6 +10,7 @@
  * @license MIT
  */
 
+import { randomUUID } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
@@ -21,7 +22,12 @@ import {
 
 // Import services and utilities
 import { PayPalAuthService } from './services/auth.service.js';
-import { validateInput } from './utils/validation.js';
+import { WebhookReceiverService } from './services/webhook-receiver.service.js';
+import { HttpTransportService } from './services/http-transport.service.js';
+import { webhookEventStore } from './services/event-store.service.js';
+import { idempotencyStore } from './services/idempotency.service.js';
+import { validateIdempotencyKey, validateInput } from './utils/validation.js';
+import { ToolContent } from './utils/content.js';
 import { logger } from './utils/logger.js';
 import { config } from './config.js';
 
@@ -29,17 +35,71 @@ import { config } from './config.js';
 import { paymentTools } from './tools/payment.tools.js';
 import { businessTools } from './tools/business.tools.js';
 import { userTools } from './tools/user.tools.js';
+import { disputeTools } from './tools/dispute.tools.js';
+import { reportingTools } from './tools/reporting.tools.js';
+import { webhookTools } from './tools/webhook.tools.js';
 
 /**
  * Main PayPal MCP Server class
  */
 class PayPalMcpServer {
-  private server: Server;
+  private server: Server | null = null;
   private authService: PayPalAuthService;
+  private webhookReceiver: WebhookReceiverService | null = null;
+  private httpTransport: HttpTransportService | null = null;
 
   constructor() {
-    // Initialize the MCP server
-    this.server = new Server(
+    // Initialize the PayPal authentication service, shared by every MCP session
+    this.authService = new PayPalAuthService({
+      clientId: config.paypal.clientId,
+      clientSecret: config.paypal.clientSecret,
+      environment: config.paypal.environment,
+      baseUrl: config.paypal.apiBaseUrl,
+      timeout: config.server.requestTimeout,
+      maxRetries: config.server.maxRetries,
+      retryDelay: config.server.retryDelay,
+    });
+
+    // Initialize the optional webhook receiver
+    if (config.webhooks.listenerPort > 0) {
+      this.webhookReceiver = new WebhookReceiverService(
+        {
+          host: config.webhooks.listenerHost,
+          port: config.webhooks.listenerPort,
+          path: config.webhooks.listenerPath,
+          webhookId: config.webhooks.webhookId,
+        },
+        this.authService,
+        webhookEventStore
+      );
+    }
+
+    // Initialize the streamable HTTP transport if enabled
+    if (config.transport.type === 'http') {
+      this.httpTransport = new HttpTransportService(
+        {
+          host: config.transport.httpHost,
+          port: config.transport.httpPort,
+          path: config.transport.httpPath,
+          authToken: config.transport.authToken,
+          sessionIdleTimeout: config.transport.sessionIdleTimeout,
+        },
+        () => this.createServer()
+      );
+    }
+
+    // Set up error handling
+    this.setupErrorHandling();
+  }
+
+  /**
+   * Create an MCP server with the PayPal tools registered
+   * 
+   * The stdio transport uses a single server, while the HTTP transport
+   * creates one per client session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'paypal-mcp-server',
         version: '0.1.0',
@@ -51,87 +111,117 @@ class PayPalMcpServer {
       }
     );
 
-    // Initialize the PayPal authentication service
-    this.authService = new PayPalAuthService({
-      clientId: config.paypal.clientId,
-      clientSecret: config.paypal.clientSecret,
-      environment: config.paypal.environment,
-    });
+    this.setupRequestHandlers(server);
 
-    // Set up request handlers
-    this.setupRequestHandlers();
-    
-    // Set up error handling
-    this.setupErrorHandling();
+    server.onerror = (error) => {
+      logger.error('MCP Server Error:', error);
+    };
+
+    return server;
   }
 
   /**
    * Set up MCP request handlers
    */
-  private setupRequestHandlers(): void {
+  private setupRequestHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const allTools = [
         ...paymentTools,
         ...businessTools,
         ...userTools,
+        ...disputeTools,
+        ...reportingTools,
+        ...webhookTools,
       ];
 
       return {
-        tools: allTools,
+        tools: allTools.map(tool => this.isIdempotentTool(tool.name) ? this.withIdempotencyKey(tool) : tool),
       };
     });
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    // Handle tool calls, tagging everything logged for a call with one correlation ID
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
       
-      logger.info(`Tool call: ${name}`);
-      logger.debug(`Tool arguments: ${JSON.stringify(args)}`);
-
-      try {
-        // Ensure we have a valid access token
-        await this.authService.ensureAccessToken();
-        
-        // Find the appropriate handler based on the tool name
-        const handler = this.getToolHandler(name);
-        
-        if (!handler) {
-          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-        }
-
-        // Validate the input arguments
-        const validatedArgs = validateInput(name, args);
-        
-        // Execute the tool handler
-        const result = await handler(validatedArgs, this.authService);
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
-        logger.error(`Error executing tool ${name}:`, error);
-        
+      return logger.withContext({ correlation_id: randomUUID(), tool: name }, () => this.callTool(name, args));
+    });
+  }
+
+  /**
+   * Validate and run a tool call
+   */
+  private async callTool(name: string, args: Record<string, unknown> | undefined): Promise<Record<string, unknown>> {
+    logger.info(`Tool call: ${name}`);
+    logger.debug('Tool arguments:', args);
+
+    try {
+      // Ensure we have a valid access token
+      await this.authService.ensureAccessToken();
+      
+      // Find the appropriate handler based on the tool name
+      const handler = this.getToolHandler(name);
+      
+      if (!handler) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+
+      // Idempotent tools take an idempotency key alongside their own input
+      const idempotent = this.isIdempotentTool(name);
+      const { idempotency_key, ...toolArgs } = (args || {}) as Record<string, unknown>;
+      const idempotencyKey = idempotent ? validateIdempotencyKey(name, idempotency_key) : undefined;
+      const inputArgs = idempotent ? toolArgs : args;
+
+      // Let the tool prepare its input (e.g. apply an invoice template) before validation
+      const prepareInput = this.getToolInputPreparer(name);
+      const preparedArgs = prepareInput ? await prepareInput(inputArgs, this.authService) : inputArgs;
+
+      // Validate the input arguments
+      const validatedArgs = validateInput(name, preparedArgs);
+      
+      // Execute the tool handler, returning the stored result of a call repeated with the same idempotency key
+      const result = idempotent
+        ? await idempotencyStore.execute(
+            name,
+            idempotencyKey,
+            validatedArgs,
+            (key) => handler({ ...validatedArgs, idempotency_key: key }, this.authService),
+            this.isRepeatableTool(name)
+          )
+        : await handler(validatedArgs, this.authService);
+      
+      // Some tools build their own MCP content, such as embedded resources
+      if (result instanceof ToolContent) {
         return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
+          content: result.content,
         };
       }
-    });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      
+      logger.error(`Error executing tool ${name}:`, error);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
   }
 
   /**
@@ -150,17 +240,68 @@ class PayPalMcpServer {
     const userHandler = userTools.find(tool => tool.name === toolName)?.handler;
     if (userHandler) return userHandler;
 
+    // Check dispute tools
+    const disputeHandler = disputeTools.find(tool => tool.name === toolName)?.handler;
+    if (disputeHandler) return disputeHandler;
+
+    // Check reporting tools
+    const reportingHandler = reportingTools.find(tool => tool.name === toolName)?.handler;
+    if (reportingHandler) return reportingHandler;
+
+    // Check webhook tools
+    const webhookHandler = webhookTools.find(tool => tool.name === toolName)?.handler;
+    if (webhookHandler) return webhookHandler;
+
     return undefined;
   }
 
   /**
-   * Set up error handling
+   * Get the input preparation function of a tool, if it defines one
    */
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      logger.error('MCP Server Error:', error);
+  private getToolInputPreparer(toolName: string): Function | undefined {
+    return businessTools.find(tool => tool.name === toolName)?.prepareInput;
+  }
+
+  /**
+   * Whether a tool creates or changes something and is run at most once per idempotency key
+   */
+  private isIdempotentTool(toolName: string): boolean {
+    return [...paymentTools, ...businessTools, ...userTools, ...disputeTools, ...webhookTools]
+      .some(tool => tool.name === toolName && tool.idempotent);
+  }
+
+  /**
+   * Whether identical calls to a tool are deliberate repeats, such as sending
+   * another invoice reminder, rather than retries
+   */
+  private isRepeatableTool(toolName: string): boolean {
+    return [...paymentTools, ...businessTools, ...disputeTools, ...webhookTools]
+      .some(tool => tool.name === toolName && tool.repeatable);
+  }
+
+  /**
+   * Add the optional idempotency_key argument to a tool's input schema
+   */
+  private withIdempotencyKey<T extends { inputSchema: Record<string, any> }>(tool: T): T {
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          idempotency_key: {
+            type: 'string',
+            description: 'Sent as the PayPal-Request-Id. Repeating a call with the same key returns the original result, marked with replayed: true, instead of running it again. When omitted, a key is derived from the arguments, so PayPal recognizes an identical call retried within a few minutes. Pass a new key to deliberately repeat an identical call.',
+          },
+        },
+      },
     };
+  }
 
+  /**
+   * Set up error handling
+   */
+  private setupErrorHandling(): void {
     process.on('uncaughtException', (error) => {
       logger.error('Uncaught Exception:', error);
     });
@@ -171,7 +312,9 @@ class PayPalMcpServer {
 
     process.on('SIGINT', async () => {
       logger.info('Shutting down PayPal MCP server...');
-      await this.server.close();
+      await this.webhookReceiver?.stop();
+      await this.httpTransport?.stop();
+      await this.server?.close();
       process.exit(0);
     });
   }
@@ -184,9 +327,16 @@ class PayPalMcpServer {
       // Verify PayPal credentials on startup
       await this.authService.verifyCredentials();
       
-      // Connect to the transport
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      // Serve MCP clients over HTTP, or connect to the stdio transport
+      if (this.httpTransport) {
+        await this.httpTransport.start();
+      } else {
+        this.server = this.createServer();
+        await this.server.connect(new StdioServerTransport());
+      }
+      
+      // Start receiving webhook deliveries if enabled
+      await this.webhookReceiver?.start();
       
       logger.info(`PayPal MCP server running on ${config.paypal.environment} environment`);
     } catch (error) {
@@ -30,6 +30,16 @@ const phoneSchema = z.object({
   phone_type: z.enum(['FAX', 'HOME', 'MOBILE', 'OTHER', 'PAGER']).optional(),
 });
 
+/**
+ * Catalog product categories
+ */
+const productCategorySchema = z.enum([
+  'ACCOMMODATION', 'ACCESSORIES', 'APPAREL', 'ART', 'AUTOMOTIVE', 'BABY', 'BOOKS', 'COLLECTIBLES',
+  'COMPUTER', 'CRAFTS', 'ELECTRONICS', 'ENTERTAINMENT', 'FITNESS', 'FOOD', 'FURNITURE', 'GIFT_CARDS',
+  'HEALTH', 'HOME', 'JEWELRY', 'MERCHANDISE', 'MUSIC', 'OFFICE', 'OTHER', 'PETS', 'PHOTOGRAPHY',
+  'SERVICES', 'SOFTWARE', 'SPORTS', 'TICKETS', 'TOYS', 'TRAVEL', 'VIDEO_GAMES'
+]);
+
 /**
  * Create Product Schema
  */
@@ -37,16 +47,43 @@ const createProductSchema = z.object({
   name: z.string().min(1).max(127),
   description: z.string().max(256).optional(),
   type: z.enum(['PHYSICAL', 'DIGITAL', 'SERVICE']),
-  category: z.enum([
-    'ACCOMMODATION', 'ACCESSORIES', 'APPAREL', 'ART', 'AUTOMOTIVE', 'BABY', 'BOOKS', 'COLLECTIBLES',
-    'COMPUTER', 'CRAFTS', 'ELECTRONICS', 'ENTERTAINMENT', 'FITNESS', 'FOOD', 'FURNITURE', 'GIFT_CARDS',
-    'HEALTH', 'HOME', 'JEWELRY', 'MERCHANDISE', 'MUSIC', 'OFFICE', 'OTHER', 'PETS', 'PHOTOGRAPHY',
-    'SERVICES', 'SOFTWARE', 'SPORTS', 'TICKETS', 'TOYS', 'TRAVEL', 'VIDEO_GAMES'
-  ]).optional(),
+  category: productCategorySchema.optional(),
   image_url: z.string().url().optional(),
   home_url: z.string().url().optional(),
 });
 
+/**
+ * List Products Schema
+ */
+const listProductsSchema = z.object({
+  page: z.number().int().min(1).max(100000).optional(),
+  page_size: z.number().int().min(1).max(20).optional(),
+  total_required: z.boolean().optional(),
+});
+
+/**
+ * Update Product Schema
+ * 
+ * The catalog only allows description, category, image_url and home_url to be
+ * patched, and each value is checked the same way as when creating a product.
+ */
+const productPatchOpSchema = z.enum(['add', 'replace', 'remove']);
+
+const updateProductSchema = z.object({
+  product_id: z.string(),
+  operations: z.array(
+    z.discriminatedUnion('path', [
+      z.object({ op: productPatchOpSchema, path: z.literal('/description'), value: z.string().max(256).optional() }),
+      z.object({ op: productPatchOpSchema, path: z.literal('/category'), value: productCategorySchema.optional() }),
+      z.object({ op: productPatchOpSchema, path: z.literal('/image_url'), value: z.string().url().optional() }),
+      z.object({ op: productPatchOpSchema, path: z.literal('/home_url'), value: z.string().url().optional() }),
+    ]).refine(
+      operation => operation.op === 'remove' || operation.value !== undefined,
+      { message: 'value is required for add and replace operations' }
+    )
+  ).min(1),
+});
+
 /**
  * Create Invoice Schema
  */
@@ -128,6 +165,171 @@ const createInvoiceSchema = z.object({
   }).optional(),
 });
 
+/**
+ * Invoice template settings and content
+ */
+const invoiceTemplateFields = {
+  name: z.string().min(1).max(500),
+  default_template: z.boolean().optional(),
+  template_info: createInvoiceSchema.partial().optional(),
+  settings: z.object({
+    template_item_settings: z.array(z.record(z.any())).optional(),
+    template_subtotal_settings: z.array(z.record(z.any())).optional(),
+  }).optional(),
+  unit_of_measure: z.enum(['QUANTITY', 'HOURS', 'AMOUNT']).optional(),
+};
+
+/**
+ * Create Invoice Template Schema
+ */
+const createInvoiceTemplateSchema = z.object(invoiceTemplateFields);
+
+/**
+ * List Invoice Templates Schema
+ */
+const listInvoiceTemplatesSchema = z.object({
+  fields: z.enum(['all', 'none']).optional(),
+  page: z.number().int().min(1).max(1000).optional(),
+  page_size: z.number().int().min(1).max(100).optional(),
+});
+
+/**
+ * Get Invoice Template Schema
+ */
+const getInvoiceTemplateSchema = z.object({
+  template_id: z.string(),
+});
+
+/**
+ * Update Invoice Template Schema
+ */
+const updateInvoiceTemplateSchema = z.object({
+  template_id: z.string(),
+  ...invoiceTemplateFields,
+});
+
+/**
+ * Delete Invoice Template Schema
+ */
+const deleteInvoiceTemplateSchema = z.object({
+  template_id: z.string(),
+});
+
+/**
+ * Invoice notification options shared by send, remind and cancel
+ */
+const invoiceNotificationSchema = z.object({
+  invoice_id: z.string(),
+  subject: z.string().max(4000).optional(),
+  note: z.string().max(4000).optional(),
+  send_to_invoicer: z.boolean().optional(),
+  send_to_recipient: z.boolean().optional(),
+  additional_recipients: z.array(z.string().email()).optional(),
+});
+
+/**
+ * Payment methods accepted when recording external invoice payments and refunds
+ */
+const invoicePaymentMethodSchema = z.enum([
+  'BANK_TRANSFER', 'CASH', 'CHECK', 'CREDIT_CARD', 'DEBIT_CARD', 'PAYPAL', 'WIRE_TRANSFER', 'OTHER',
+]);
+
+/**
+ * Send Invoice Schema
+ */
+const sendInvoiceSchema = invoiceNotificationSchema;
+
+/**
+ * Remind Invoice Schema
+ */
+const remindInvoiceSchema = invoiceNotificationSchema;
+
+/**
+ * Cancel Invoice Schema
+ */
+const cancelInvoiceSchema = invoiceNotificationSchema;
+
+/**
+ * Record Invoice Payment Schema
+ */
+const recordInvoicePaymentSchema = z.object({
+  invoice_id: z.string(),
+  method: invoicePaymentMethodSchema,
+  payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  amount: amountSchema.optional(),
+  note: z.string().max(2000).optional(),
+  payment_id: z.string().optional(),
+});
+
+/**
+ * Delete Invoice Payment Schema
+ */
+const deleteInvoicePaymentSchema = z.object({
+  invoice_id: z.string(),
+  transaction_id: z.string(),
+});
+
+/**
+ * Record Invoice Refund Schema
+ */
+const recordInvoiceRefundSchema = z.object({
+  invoice_id: z.string(),
+  method: invoicePaymentMethodSchema,
+  refund_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  amount: amountSchema.optional(),
+});
+
+/**
+ * Generate Invoice Number Schema
+ */
+const generateInvoiceNumberSchema = z.object({
+  // No parameters required for this operation
+}).strict();
+
+/**
+ * Invoice statuses that can be used as search filters
+ */
+const invoiceStatusSchema = z.enum([
+  'DRAFT', 'SENT', 'SCHEDULED', 'PAID', 'MARKED_AS_PAID', 'CANCELLED', 'REFUNDED', 'PARTIALLY_PAID',
+  'PARTIALLY_REFUNDED', 'MARKED_AS_REFUNDED', 'UNPAID', 'PAYMENT_PENDING',
+]);
+
+const dateRangeSchema = z.object({
+  start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+const paginationSchema = {
+  page: z.number().int().min(1).max(1000).optional(),
+  page_size: z.number().int().min(1).max(100).optional(),
+  total_required: z.boolean().optional(),
+};
+
+/**
+ * List Invoices Schema
+ */
+const listInvoicesSchema = z.object({
+  status: z.array(invoiceStatusSchema).optional(),
+  ...paginationSchema,
+});
+
+/**
+ * Search Invoices Schema
+ */
+const searchInvoicesSchema = z.object({
+  status: z.array(invoiceStatusSchema).optional(),
+  recipient_email: z.string().email().optional(),
+  invoice_number: z.string().max(25).optional(),
+  invoice_date_range: dateRangeSchema.optional(),
+  due_date_range: dateRangeSchema.optional(),
+  total_amount_range: z.object({
+    lower_amount: amountSchema,
+    upper_amount: amountSchema,
+  }).optional(),
+  currency_code: z.string().min(3).max(3).optional(),
+  ...paginationSchema,
+});
+
 /**
  * Create Payout Schema
  */
@@ -149,11 +351,165 @@ const createPayoutSchema = z.object({
   ),
 });
 
+/**
+ * Import Payouts CSV Schema
+ * 
+ * The sender batch ID is kept short enough to take a suffix when the import
+ * has to be split across several batches.
+ */
+const importPayoutsCsvSchema = z.object({
+  csv: z.string().min(1),
+  sender_batch_id: z.string().max(44),
+  email_subject: z.string().max(255).optional(),
+  email_message: z.string().max(1000).optional(),
+  confirm: z.boolean().optional(),
+});
+
+/**
+ * Get Payout Batch Schema
+ */
+const getPayoutBatchSchema = z.object({
+  payout_batch_id: z.string(),
+  page: z.number().int().min(1).optional(),
+  page_size: z.number().int().min(1).max(1000).optional(),
+  total_required: z.boolean().optional(),
+});
+
+/**
+ * Get Payout Item Schema
+ */
+const getPayoutItemSchema = z.object({
+  payout_item_id: z.string(),
+});
+
+/**
+ * Cancel Unclaimed Payout Item Schema
+ */
+const cancelUnclaimedPayoutItemSchema = z.object({
+  payout_item_id: z.string(),
+});
+
+/**
+ * Billing plan pricing scheme
+ */
+const pricingSchemeSchema = z.object({
+  fixed_price: amountSchema,
+});
+
+/**
+ * Create Plan Schema
+ * 
+ * A plan has exactly one REGULAR billing cycle, optionally preceded by up to two TRIAL cycles.
+ */
+const createPlanSchema = z.object({
+  product_id: z.string(),
+  name: z.string().min(1).max(127),
+  description: z.string().max(127).optional(),
+  status: z.enum(['CREATED', 'ACTIVE', 'INACTIVE']).optional(),
+  billing_cycles: z.array(
+    z.object({
+      frequency: z.object({
+        interval_unit: z.enum(['DAY', 'WEEK', 'MONTH', 'YEAR']),
+        interval_count: z.number().int().positive().optional(),
+      }),
+      tenure_type: z.enum(['REGULAR', 'TRIAL']),
+      sequence: z.number().int().min(1).max(99),
+      total_cycles: z.number().int().min(0).max(999).optional(),
+      pricing_scheme: pricingSchemeSchema.optional(),
+    })
+  ).min(1).max(3).refine(
+    cycles => cycles.filter(cycle => cycle.tenure_type === 'REGULAR').length === 1,
+    { message: 'Exactly one REGULAR billing cycle is required' }
+  ),
+  payment_preferences: z.object({
+    auto_bill_outstanding: z.boolean().optional(),
+    setup_fee: amountSchema.optional(),
+    setup_fee_failure_action: z.enum(['CONTINUE', 'CANCEL']).optional(),
+    payment_failure_threshold: z.number().int().min(0).max(999).optional(),
+  }),
+  taxes: z.object({
+    percentage: z.string().regex(/^\d+\.?\d*$/),
+    inclusive: z.boolean().optional(),
+  }).optional(),
+  quantity_supported: z.boolean().optional(),
+});
+
+/**
+ * List Plans Schema
+ */
+const listPlansSchema = z.object({
+  product_id: z.string().optional(),
+  plan_ids: z.string().optional(),
+  page_size: z.number().int().min(1).max(20).optional(),
+  page: z.number().int().min(1).max(100000).optional(),
+  total_required: z.boolean().optional(),
+});
+
+/**
+ * Get Plan Schema
+ */
+const getPlanSchema = z.object({
+  plan_id: z.string(),
+});
+
+/**
+ * Update Plan Pricing Schema
+ */
+const updatePlanPricingSchema = z.object({
+  plan_id: z.string(),
+  pricing_schemes: z.array(
+    z.object({
+      billing_cycle_sequence: z.number().int().min(1).max(99),
+      pricing_scheme: pricingSchemeSchema,
+    })
+  ).min(1),
+});
+
+/**
+ * Activate Plan Schema
+ */
+const activatePlanSchema = z.object({
+  plan_id: z.string(),
+});
+
+/**
+ * Deactivate Plan Schema
+ */
+const deactivatePlanSchema = z.object({
+  plan_id: z.string(),
+});
+
 /**
  * Export all business schemas
  */
 export const businessSchemas = {
   createProductSchema,
+  listProductsSchema,
+  updateProductSchema,
   createInvoiceSchema,
+  sendInvoiceSchema,
+  remindInvoiceSchema,
+  cancelInvoiceSchema,
+  recordInvoicePaymentSchema,
+  deleteInvoicePaymentSchema,
+  recordInvoiceRefundSchema,
+  generateInvoiceNumberSchema,
+  listInvoicesSchema,
+  searchInvoicesSchema,
+  createInvoiceTemplateSchema,
+  listInvoiceTemplatesSchema,
+  getInvoiceTemplateSchema,
+  updateInvoiceTemplateSchema,
+  deleteInvoiceTemplateSchema,
   createPayoutSchema,
+  importPayoutsCsvSchema,
+  getPayoutBatchSchema,
+  getPayoutItemSchema,
+  cancelUnclaimedPayoutItemSchema,
+  createPlanSchema,
+  listPlansSchema,
+  getPlanSchema,
+  updatePlanPricingSchema,
+  activatePlanSchema,
+  deactivatePlanSchema,
 };
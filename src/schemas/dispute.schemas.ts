@@ -0,0 +1,129 @@
+/**
+ * Dispute schemas for PayPal MCP Server
+ * 
+ * Defines Zod validation schemas for dispute-related operations.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Common schemas used across multiple dispute operations
+ */
+const amountSchema = z.object({
+  currency_code: z.string().min(3).max(3),
+  value: z.string().regex(/^\d+\.?\d*$/),
+});
+
+const addressSchema = z.object({
+  address_line_1: z.string().optional(),
+  address_line_2: z.string().optional(),
+  admin_area_1: z.string().optional(),
+  admin_area_2: z.string().optional(),
+  postal_code: z.string().optional(),
+  country_code: z.string().min(2).max(2),
+});
+
+/**
+ * List Disputes Schema
+ */
+const listDisputesSchema = z.object({
+  start_time: z.string().datetime().optional(),
+  disputed_transaction_id: z.string().optional(),
+  dispute_state: z.enum([
+    'REQUIRED_ACTION', 'REQUIRED_OTHER_PARTY_ACTION', 'UNDER_PAYPAL_REVIEW', 'RESOLVED', 'OPEN_INQUIRIES', 'APPEALABLE',
+  ]).optional(),
+  page_size: z.number().int().min(1).max(50).optional(),
+  next_page_token: z.string().optional(),
+});
+
+/**
+ * Get Dispute Schema
+ */
+const getDisputeSchema = z.object({
+  dispute_id: z.string(),
+});
+
+/**
+ * Accept Dispute Claim Schema
+ */
+const acceptDisputeClaimSchema = z.object({
+  dispute_id: z.string(),
+  note: z.string().max(2000),
+  accept_claim_reason: z.enum([
+    'DID_NOT_SHIP_ITEM', 'TOO_TIME_CONSUMING', 'LOST_IN_MAIL', 'NOT_ABLE_TO_WIN', 'COMPANY_POLICY',
+    'REASON_NOT_SET',
+  ]).optional(),
+  accept_claim_type: z.enum(['REFUND', 'REFUND_WITH_RETURN', 'PARTIAL_REFUND', 'REFUND_WITH_RETURN_SHIPMENT_LABEL']).optional(),
+  invoice_id: z.string().max(127).optional(),
+  refund_amount: amountSchema.optional(),
+  return_shipping_address: addressSchema.optional(),
+});
+
+/**
+ * Make Dispute Offer Schema
+ */
+const makeDisputeOfferSchema = z.object({
+  dispute_id: z.string(),
+  note: z.string().max(2000),
+  offer_type: z.enum(['REFUND', 'REFUND_WITH_RETURN', 'REFUND_WITH_REPLACEMENT', 'REPLACEMENT_WITHOUT_REFUND']),
+  offer_amount: amountSchema.optional(),
+  invoice_id: z.string().max(127).optional(),
+  return_shipping_address: addressSchema.optional(),
+});
+
+/**
+ * Send Dispute Message Schema
+ */
+const sendDisputeMessageSchema = z.object({
+  dispute_id: z.string(),
+  message: z.string().min(1).max(2000),
+});
+
+/**
+ * Escalate Dispute Schema
+ */
+const escalateDisputeSchema = z.object({
+  dispute_id: z.string(),
+  note: z.string().min(1).max(2000),
+});
+
+/**
+ * Provide Dispute Evidence Schema
+ * 
+ * Files are local paths that are uploaded alongside the evidence descriptions.
+ */
+const provideDisputeEvidenceSchema = z.object({
+  dispute_id: z.string(),
+  evidences: z.array(
+    z.object({
+      evidence_type: z.string().regex(/^[A-Z_]+$/),
+      evidence_info: z.object({
+        tracking_info: z.array(
+          z.object({
+            carrier_name: z.string(),
+            carrier_name_other: z.string().optional(),
+            tracking_url: z.string().url().optional(),
+            tracking_number: z.string(),
+          })
+        ).optional(),
+        refund_ids: z.array(z.object({ refund_id: z.string() })).optional(),
+      }).optional(),
+      notes: z.string().max(2000).optional(),
+    })
+  ).min(1),
+  files: z.array(z.string().min(1)).max(10).optional(),
+  return_shipping_address: addressSchema.optional(),
+});
+
+/**
+ * Export all dispute schemas
+ */
+export const disputeSchemas = {
+  listDisputesSchema,
+  getDisputeSchema,
+  acceptDisputeClaimSchema,
+  makeDisputeOfferSchema,
+  sendDisputeMessageSchema,
+  escalateDisputeSchema,
+  provideDisputeEvidenceSchema,
+};
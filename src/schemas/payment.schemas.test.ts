@@ -0,0 +1,26 @@
+import { paymentSchemas } from './payment.schemas.js';
+
+describe('updateOrderSchema', () => {
+  const isValidPath = (path: string) => paymentSchemas.updateOrderSchema.safeParse({
+    order_id: 'ORDER-1',
+    operations: [{ op: 'replace', path, value: {} }],
+  }).success;
+  
+  it.each([
+    "/purchase_units/@reference_id=='default'",
+    "/purchase_units/@reference_id=='default'/shipping/address",
+    "/purchase_units/@reference_id=='default'/items/0",
+    "/purchase_units/@reference_id=='PUHF'/items/12/quantity",
+  ])('accepts %s', (path) => {
+    expect(isValidPath(path)).toBe(true);
+  });
+  
+  it.each([
+    '/intent',
+    "/purchase_units/@reference_id=='default'/items/0x",
+    "/purchase_units/@reference_id=='default'/Amount",
+    "/purchase_units/@reference_id=='default'/",
+  ])('rejects %s', (path) => {
+    expect(isValidPath(path)).toBe(false);
+  });
+});
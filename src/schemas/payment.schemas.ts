@@ -45,27 +45,117 @@ const applicationContextSchema = z.object({
   cancel_url: z.string().url().optional(),
 });
 
+/**
+ * Vault customer
+ */
+const vaultCustomerSchema = z.object({
+  id: z.string().optional(),
+  email_address: z.string().email().optional(),
+  phone: z.object({
+    phone_number: z.string(),
+    phone_type: z.enum(['HOME', 'WORK', 'MOBILE', 'OTHER']),
+  }).optional(),
+});
+
+/**
+ * Experience context for vaulting wallets that need buyer approval
+ */
+const vaultExperienceContextSchema = z.object({
+  brand_name: z.string().max(127).optional(),
+  locale: z.string().optional(),
+  return_url: z.string().url(),
+  cancel_url: z.string().url(),
+  shipping_preference: z.enum(['GET_FROM_FILE', 'NO_SHIPPING', 'SET_PROVIDED_ADDRESS']).optional(),
+  vault_instruction: z.enum(['ON_CREATE_PAYMENT_TOKENS', 'ON_PAYER_APPROVAL']).optional(),
+});
+
+/**
+ * Vault wallet payment source, shared by PayPal and Venmo
+ */
+const vaultWalletSourceSchema = z.object({
+  description: z.string().max(128).optional(),
+  usage_pattern: z.string().optional(),
+  usage_type: z.enum(['MERCHANT', 'PLATFORM']),
+  customer_type: z.enum(['CONSUMER', 'BUSINESS']).optional(),
+  permit_multiple_payment_tokens: z.boolean().optional(),
+  shipping: z.object({
+    name: z.object({ full_name: z.string() }).optional(),
+    address: addressSchema.optional(),
+  }).optional(),
+  experience_context: vaultExperienceContextSchema.optional(),
+});
+
+/**
+ * Vault payment source: exactly one of card, PayPal wallet or Venmo
+ */
+const vaultPaymentSourceSchema = z.object({
+  card: z.object({
+    number: z.string().regex(/^\d{13,19}$/),
+    expiry: z.string().regex(/^\d{4}-\d{2}$/),
+    name: z.string(),
+    security_code: z.string().regex(/^\d{3,4}$/),
+    billing_address: addressSchema.optional(),
+  }).optional(),
+  paypal: vaultWalletSourceSchema.optional(),
+  venmo: vaultWalletSourceSchema.optional(),
+}).refine(
+  source => [source.card, source.paypal, source.venmo].filter(Boolean).length === 1,
+  { message: 'Provide exactly one of card, paypal or venmo' }
+);
+
 /**
  * Create Payment Token Schema
  */
 const createPaymentTokenSchema = z.object({
-  customer: z.object({
-    id: z.string().optional(),
-    email_address: z.string().email().optional(),
-    phone: z.object({
-      phone_number: z.string(),
-      phone_type: z.enum(['HOME', 'WORK', 'MOBILE', 'OTHER']),
-    }).optional(),
-  }),
-  payment_source: z.object({
-    card: z.object({
-      number: z.string().regex(/^\d{13,19}$/),
-      expiry: z.string().regex(/^\d{4}$/),
-      name: z.string(),
-      security_code: z.string().regex(/^\d{3,4}$/),
-      billing_address: addressSchema.optional(),
-    }),
-  }),
+  customer: vaultCustomerSchema,
+  payment_source: vaultPaymentSourceSchema,
+});
+
+/**
+ * Create Setup Token Schema
+ */
+const createSetupTokenSchema = z.object({
+  customer: vaultCustomerSchema.optional(),
+  payment_source: vaultPaymentSourceSchema,
+});
+
+/**
+ * Get Setup Token Schema
+ */
+const getSetupTokenSchema = z.object({
+  setup_token_id: z.string(),
+});
+
+/**
+ * Create Payment Token From Setup Token Schema
+ */
+const createPaymentTokenFromSetupTokenSchema = z.object({
+  setup_token_id: z.string(),
+  customer: vaultCustomerSchema.optional(),
+});
+
+/**
+ * List Payment Tokens Schema
+ */
+const listPaymentTokensSchema = z.object({
+  customer_id: z.string(),
+  page: z.number().int().min(1).optional(),
+  page_size: z.number().int().min(1).max(20).optional(),
+  total_required: z.boolean().optional(),
+});
+
+/**
+ * Get Payment Token Schema
+ */
+const getPaymentTokenSchema = z.object({
+  payment_token_id: z.string(),
+});
+
+/**
+ * Delete Payment Token Schema
+ */
+const deletePaymentTokenSchema = z.object({
+  payment_token_id: z.string(),
 });
 
 /**
@@ -107,6 +197,182 @@ const captureOrderSchema = z.object({
   }).optional(),
 });
 
+/**
+ * Get Order Schema
+ */
+const getOrderSchema = z.object({
+  order_id: z.string(),
+});
+
+/**
+ * Update Order Schema
+ * 
+ * PayPal only allows patching purchase unit fields of an order.
+ */
+const updateOrderSchema = z.object({
+  order_id: z.string(),
+  operations: z.array(
+    z.object({
+      op: z.enum(['add', 'replace', 'remove']),
+      path: z.string().regex(/^\/purchase_units\/@reference_id=='[^']+'(\/([a-z_]+|\d+))*$/),
+      value: z.any().optional(),
+      from: z.string().optional(),
+    })
+  ).min(1),
+});
+
+/**
+ * Order Payment Source Schema
+ */
+const orderPaymentSourceSchema = z.object({
+  token: z.object({
+    id: z.string(),
+    type: z.string(),
+  }).optional(),
+  paypal: z.object({
+    email_address: z.string().email().optional(),
+    name: nameSchema.optional(),
+    experience_context: z.record(z.any()).optional(),
+  }).optional(),
+  card: z.object({
+    number: z.string().regex(/^\d{13,19}$/).optional(),
+    expiry: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+    name: z.string().optional(),
+    security_code: z.string().regex(/^\d{3,4}$/).optional(),
+    billing_address: addressSchema.optional(),
+    vault_id: z.string().optional(),
+  }).optional(),
+});
+
+/**
+ * Authorize Order Schema
+ */
+const authorizeOrderSchema = z.object({
+  order_id: z.string(),
+  payment_source: orderPaymentSourceSchema.optional(),
+});
+
+/**
+ * Confirm Payment Source Schema
+ */
+const confirmPaymentSourceSchema = z.object({
+  order_id: z.string(),
+  payment_source: orderPaymentSourceSchema,
+  application_context: applicationContextSchema.optional(),
+});
+
+/**
+ * Shipment tracking details for a captured order
+ */
+const trackingSchema = z.object({
+  order_id: z.string(),
+  capture_id: z.string(),
+  tracking_number: z.string().max(64),
+  carrier: z.string().regex(/^[A-Z0-9_]+$/),
+  carrier_name_other: z.string().max(64).optional(),
+  notify_payer: z.boolean().optional(),
+  items: z.array(
+    z.object({
+      name: z.string().max(127),
+      quantity: z.string().regex(/^[1-9]\d{0,9}$/),
+      sku: z.string().max(127).optional(),
+      url: z.string().url().optional(),
+      image_url: z.string().url().optional(),
+      upc: z.object({
+        type: z.enum(['UPC-A', 'UPC-B', 'UPC-C', 'UPC-D', 'UPC-E', 'UPC-2', 'UPC-5']),
+        code: z.string().min(6).max(17),
+      }).optional(),
+    })
+  ).optional(),
+}).refine(
+  data => data.carrier !== 'OTHER' || Boolean(data.carrier_name_other),
+  { message: 'carrier_name_other is required when carrier is OTHER' }
+);
+
+/**
+ * Add Tracking Schema
+ */
+const addTrackingSchema = trackingSchema;
+
+/**
+ * Add Tracking Bulk Schema
+ */
+const addTrackingBulkSchema = z.object({
+  shipments: z.array(trackingSchema).min(1).max(500),
+});
+
+/**
+ * Update Tracking Schema
+ */
+const updateTrackingSchema = z.object({
+  order_id: z.string(),
+  tracker_id: z.string(),
+  status: z.enum(['SHIPPED', 'CANCELLED']).optional(),
+  tracking_number: z.string().max(64).optional(),
+  carrier: z.string().regex(/^[A-Z0-9_]+$/).optional(),
+  carrier_name_other: z.string().max(64).optional(),
+  notify_payer: z.boolean().optional(),
+}).refine(
+  data => ['status', 'tracking_number', 'carrier', 'carrier_name_other', 'notify_payer']
+    .some(field => data[field as keyof typeof data] !== undefined),
+  { message: 'At least one tracking field must be updated' }
+);
+
+/**
+ * Get Authorization Schema
+ */
+const getAuthorizationSchema = z.object({
+  authorization_id: z.string(),
+});
+
+/**
+ * Capture Authorization Schema
+ * 
+ * Omitting the amount captures the full authorized amount.
+ */
+const captureAuthorizationSchema = z.object({
+  authorization_id: z.string(),
+  amount: amountSchema.optional(),
+  final_capture: z.boolean().optional(),
+  invoice_id: z.string().max(127).optional(),
+  note_to_payer: z.string().max(255).optional(),
+  soft_descriptor: z.string().max(22).optional(),
+});
+
+/**
+ * Reauthorize Authorization Schema
+ */
+const reauthorizeAuthorizationSchema = z.object({
+  authorization_id: z.string(),
+  amount: amountSchema.optional(),
+});
+
+/**
+ * Void Authorization Schema
+ */
+const voidAuthorizationSchema = z.object({
+  authorization_id: z.string(),
+});
+
+/**
+ * Refund Capture Schema
+ * 
+ * Omitting the amount refunds whatever remains of the capture.
+ */
+const refundCaptureSchema = z.object({
+  capture_id: z.string(),
+  amount: amountSchema.optional(),
+  invoice_id: z.string().max(127).optional(),
+  note_to_payer: z.string().max(255).optional(),
+});
+
+/**
+ * Get Refund Schema
+ */
+const getRefundSchema = z.object({
+  refund_id: z.string(),
+});
+
 /**
  * Create Payment Schema
  */
@@ -155,6 +421,67 @@ const createPaymentSchema = z.object({
   }),
 });
 
+/**
+ * Legacy v1 amount, which names its fields total and currency
+ */
+const legacyAmountSchema = z.object({
+  total: z.string().regex(/^\d+\.?\d*$/),
+  currency: z.string().min(3).max(3),
+});
+
+/**
+ * Execute Payment Schema
+ */
+const executePaymentSchema = z.object({
+  payment_id: z.string(),
+  payer_id: z.string(),
+  transactions: z.array(
+    z.object({
+      amount: legacyAmountSchema,
+    })
+  ).optional(),
+});
+
+/**
+ * Get Payment Schema
+ */
+const getPaymentSchema = z.object({
+  payment_id: z.string(),
+});
+
+/**
+ * List Payments Schema
+ */
+const listPaymentsSchema = z.object({
+  count: z.number().int().min(1).max(20).optional(),
+  start_id: z.string().optional(),
+  start_index: z.number().int().min(0).optional(),
+  start_time: z.string().datetime().optional(),
+  end_time: z.string().datetime().optional(),
+  sort_by: z.enum(['create_time', 'update_time']).optional(),
+  sort_order: z.enum(['asc', 'desc']).optional(),
+});
+
+/**
+ * Get Sale Schema
+ */
+const getSaleSchema = z.object({
+  sale_id: z.string(),
+});
+
+/**
+ * Refund Sale Schema
+ * 
+ * Omitting the amount refunds the full sale.
+ */
+const refundSaleSchema = z.object({
+  sale_id: z.string(),
+  amount: legacyAmountSchema.optional(),
+  invoice_number: z.string().max(127).optional(),
+  description: z.string().max(255).optional(),
+  reason: z.string().max(30).optional(),
+});
+
 /**
  * Create Subscription Schema
  */
@@ -171,13 +498,98 @@ const createSubscriptionSchema = z.object({
   application_context: applicationContextSchema.optional(),
 });
 
+/**
+ * Get Subscription Schema
+ */
+const getSubscriptionSchema = z.object({
+  subscription_id: z.string(),
+});
+
+/**
+ * Suspend Subscription Schema
+ */
+const suspendSubscriptionSchema = z.object({
+  subscription_id: z.string(),
+  reason: z.string().min(1).max(128),
+});
+
+/**
+ * Activate Subscription Schema
+ */
+const activateSubscriptionSchema = z.object({
+  subscription_id: z.string(),
+  reason: z.string().min(1).max(128).optional(),
+});
+
+/**
+ * Cancel Subscription Schema
+ */
+const cancelSubscriptionSchema = z.object({
+  subscription_id: z.string(),
+  reason: z.string().min(1).max(128),
+});
+
+/**
+ * Revise Subscription Schema
+ */
+const reviseSubscriptionSchema = z.object({
+  subscription_id: z.string(),
+  plan_id: z.string().optional(),
+  quantity: z.string().optional(),
+  effective_time: z.string().datetime().optional(),
+  shipping_amount: amountSchema.optional(),
+  application_context: applicationContextSchema.optional(),
+}).refine(
+  data => data.plan_id !== undefined || data.quantity !== undefined,
+  { message: 'Either plan_id or quantity must be provided' }
+);
+
+/**
+ * List Subscription Transactions Schema
+ */
+const listSubscriptionTransactionsSchema = z.object({
+  subscription_id: z.string(),
+  start_time: z.string().datetime(),
+  end_time: z.string().datetime(),
+});
+
 /**
  * Export all payment schemas
  */
 export const paymentSchemas = {
   createPaymentTokenSchema,
+  createSetupTokenSchema,
+  getSetupTokenSchema,
+  createPaymentTokenFromSetupTokenSchema,
+  listPaymentTokensSchema,
+  getPaymentTokenSchema,
+  deletePaymentTokenSchema,
   createOrderSchema,
   captureOrderSchema,
+  getOrderSchema,
+  updateOrderSchema,
+  authorizeOrderSchema,
+  confirmPaymentSourceSchema,
+  addTrackingSchema,
+  addTrackingBulkSchema,
+  updateTrackingSchema,
+  getAuthorizationSchema,
+  captureAuthorizationSchema,
+  reauthorizeAuthorizationSchema,
+  voidAuthorizationSchema,
+  refundCaptureSchema,
+  getRefundSchema,
   createPaymentSchema,
+  executePaymentSchema,
+  getPaymentSchema,
+  listPaymentsSchema,
+  getSaleSchema,
+  refundSaleSchema,
   createSubscriptionSchema,
+  getSubscriptionSchema,
+  suspendSubscriptionSchema,
+  activateSubscriptionSchema,
+  cancelSubscriptionSchema,
+  reviseSubscriptionSchema,
+  listSubscriptionTransactionsSchema,
 };
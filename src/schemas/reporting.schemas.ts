@@ -0,0 +1,64 @@
+/**
+ * Reporting schemas for PayPal MCP Server
+ * 
+ * Defines Zod validation schemas for reporting-related operations.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Search Transactions Schema
+ */
+const searchTransactionsSchema = z.object({
+  start_date: z.string().datetime({ offset: true }),
+  end_date: z.string().datetime({ offset: true }),
+  transaction_id: z.string().optional(),
+  transaction_status: z.enum(['D', 'P', 'S', 'V']).optional(),
+  transaction_amount: z.string().regex(/^\[?-?\d+ TO -?\d+\]?$/).optional(),
+  transaction_currency: z.string().min(3).max(3).optional(),
+  transaction_type: z.string().optional(),
+  fields: z.string().optional(),
+  page_size: z.number().int().min(1).max(500).optional(),
+  max_pages: z.number().int().min(1).max(100).optional(),
+}).refine(
+  data => new Date(data.start_date) < new Date(data.end_date),
+  { message: 'start_date must be before end_date' }
+);
+
+/**
+ * Get Balances Schema
+ */
+const getBalancesSchema = z.object({
+  as_of_time: z.string().datetime({ offset: true }).optional(),
+  currency_code: z.string().min(3).max(3).optional(),
+});
+
+/**
+ * Export Transactions Schema
+ */
+const exportTransactionsSchema = z.object({
+  start_date: z.string().datetime({ offset: true }),
+  end_date: z.string().datetime({ offset: true }),
+  format: z.enum(['csv', 'ofx', 'iif']),
+  transaction_status: z.enum(['D', 'P', 'S', 'V']).optional(),
+  transaction_currency: z.string().min(3).max(3).optional(),
+  accounts: z.object({
+    gross: z.string().min(1).optional(),
+    fee: z.string().min(1).optional(),
+    net: z.string().min(1).optional(),
+    event_accounts: z.record(z.string().regex(/^T\d{4}$/), z.string().min(1)).optional(),
+  }).optional(),
+  max_pages: z.number().int().min(1).max(100).optional(),
+}).refine(
+  data => new Date(data.start_date) < new Date(data.end_date),
+  { message: 'start_date must be before end_date' }
+);
+
+/**
+ * Export all reporting schemas
+ */
+export const reportingSchemas = {
+  searchTransactionsSchema,
+  getBalancesSchema,
+  exportTransactionsSchema,
+};
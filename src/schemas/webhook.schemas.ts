@@ -0,0 +1,121 @@
+/**
+ * Webhook schemas for PayPal MCP Server
+ * 
+ * Defines Zod validation schemas for webhook-related operations.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Common schemas used across multiple webhook operations
+ */
+const eventTypesSchema = z.array(
+  z.object({
+    name: z.string().min(1),
+  })
+).min(1);
+
+/**
+ * Create Webhook Schema
+ */
+const createWebhookSchema = z.object({
+  url: z.string().url().startsWith('https://'),
+  event_types: eventTypesSchema,
+});
+
+/**
+ * List Webhooks Schema
+ */
+const listWebhooksSchema = z.object({
+  anchor_type: z.enum(['APPLICATION', 'ACCOUNT']).optional(),
+});
+
+/**
+ * Get Webhook Schema
+ */
+const getWebhookSchema = z.object({
+  webhook_id: z.string(),
+});
+
+/**
+ * Update Webhook Schema
+ * 
+ * Only the URL and the subscribed event types of a webhook can be replaced.
+ */
+const updateWebhookSchema = z.object({
+  webhook_id: z.string(),
+  operations: z.array(
+    z.discriminatedUnion('path', [
+      z.object({
+        op: z.literal('replace'),
+        path: z.literal('/url'),
+        value: z.string().url().startsWith('https://'),
+      }),
+      z.object({
+        op: z.literal('replace'),
+        path: z.literal('/event_types'),
+        value: eventTypesSchema,
+      }),
+    ])
+  ).min(1),
+});
+
+/**
+ * Delete Webhook Schema
+ */
+const deleteWebhookSchema = z.object({
+  webhook_id: z.string(),
+});
+
+/**
+ * List Webhook Event Types Schema
+ */
+const listWebhookEventTypesSchema = z.object({
+  // No parameters required for this operation
+}).strict();
+
+/**
+ * Simulate Webhook Event Schema
+ */
+const simulateWebhookEventSchema = z.object({
+  webhook_id: z.string().optional(),
+  url: z.string().url().optional(),
+  event_type: z.string().min(1),
+  resource_version: z.string().optional(),
+}).refine(
+  data => Boolean(data.webhook_id) !== Boolean(data.url),
+  { message: 'Provide either webhook_id or url' }
+);
+
+/**
+ * List Webhook Events Schema
+ */
+const listWebhookEventsSchema = z.object({
+  event_type: z.string().optional(),
+  resource_type: z.string().optional(),
+  resource_id: z.string().optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+/**
+ * Get Webhook Event Schema
+ */
+const getWebhookEventSchema = z.object({
+  event_id: z.string(),
+});
+
+/**
+ * Export all webhook schemas
+ */
+export const webhookSchemas = {
+  createWebhookSchema,
+  listWebhooksSchema,
+  getWebhookSchema,
+  updateWebhookSchema,
+  deleteWebhookSchema,
+  listWebhookEventTypesSchema,
+  simulateWebhookEventSchema,
+  listWebhookEventsSchema,
+  getWebhookEventSchema,
+};
@@ -0,0 +1,152 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PayPalAuthService } from './auth.service.js';
+
+/**
+ * A canned response from the PayPal stand-in, or 'drop' to close the
+ * connection without answering
+ */
+type StandInResponse = { status: number; headers?: Record<string, string>; body?: any } | 'drop';
+
+/**
+ * Local stand-in for the PayPal API that answers API requests with queued
+ * responses, falling back to 200 once the queue is empty
+ */
+async function startPayPalStandIn() {
+  const responses: StandInResponse[] = [];
+  const requests: { method?: string; url?: string; authorization?: string; time: number }[] = [];
+  let tokens = 0;
+  
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+      
+      if (req.url === '/v1/oauth2/token') {
+        tokens++;
+        res.end(JSON.stringify({ access_token: `token-${tokens}`, token_type: 'Bearer', expires_in: 3600 }));
+        return;
+      }
+      
+      requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization, time: Date.now() });
+      const response = responses.shift() || { status: 200, body: { id: 'OK' } };
+      if (response === 'drop') {
+        req.socket.destroy();
+        return;
+      }
+      res.writeHead(response.status, response.headers).end(JSON.stringify(response.body || {}));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    respondWith: (...queued: StandInResponse[]) => responses.push(...queued),
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('PayPalAuthService retries', () => {
+  let paypal: Awaited<ReturnType<typeof startPayPalStandIn>>;
+  
+  beforeEach(async () => {
+    paypal = await startPayPalStandIn();
+  });
+  
+  afterEach(async () => {
+    await paypal.close();
+  });
+  
+  const createAxios = (maxRetries: number, retryDelay = 1) => new PayPalAuthService({
+    clientId: 'test-client-id',
+    clientSecret: 'test-client-secret',
+    environment: 'sandbox',
+    baseUrl: paypal.baseUrl,
+    maxRetries,
+    retryDelay,
+  }).getAxiosInstance();
+  
+  it('retries rate limits, server errors and dropped connections on idempotent requests', async () => {
+    paypal.respondWith({ status: 429 }, { status: 503 }, 'drop');
+    
+    const response = await createAxios(3).get('/v2/checkout/orders/ORDER-1');
+    
+    expect(response.data).toEqual({ id: 'OK' });
+    expect(paypal.requests).toHaveLength(4);
+  });
+  
+  it('gives up after the configured number of retries', async () => {
+    paypal.respondWith({ status: 500 }, { status: 500 }, { status: 500 }, { status: 500 });
+    
+    await expect(createAxios(2).get('/v2/checkout/orders/ORDER-1')).rejects.toMatchObject({ response: { status: 500 } });
+    expect(paypal.requests).toHaveLength(3);
+  });
+  
+  it('does not retry when retries are disabled', async () => {
+    paypal.respondWith({ status: 503 });
+    
+    await expect(createAxios(0).get('/v2/checkout/orders/ORDER-1')).rejects.toMatchObject({ response: { status: 503 } });
+    expect(paypal.requests).toHaveLength(1);
+  });
+  
+  it.each([400, 403, 404, 409, 422])('does not retry a %i response', async (status) => {
+    paypal.respondWith({ status });
+    
+    await expect(createAxios(3).get('/v2/checkout/orders/ORDER-1')).rejects.toMatchObject({ response: { status } });
+    expect(paypal.requests).toHaveLength(1);
+  });
+  
+  it('only retries a POST that carries a PayPal-Request-Id', async () => {
+    const axios = createAxios(3);
+    
+    paypal.respondWith({ status: 503 });
+    await expect(axios.post('/v2/checkout/orders', {})).rejects.toMatchObject({ response: { status: 503 } });
+    expect(paypal.requests).toHaveLength(1);
+    
+    paypal.respondWith({ status: 503 });
+    await axios.post('/v2/checkout/orders', {}, { headers: { 'PayPal-Request-Id': 'key-1' } });
+    expect(paypal.requests).toHaveLength(3);
+  });
+  
+  it('refreshes the access token once when PayPal rejects it', async () => {
+    paypal.respondWith({ status: 401 });
+    
+    await createAxios(0).get('/v2/checkout/orders/ORDER-1');
+    
+    expect(paypal.requests.map(request => request.authorization)).toEqual(['Bearer token-1', 'Bearer token-2']);
+  });
+  
+  it('waits for the number of seconds in Retry-After instead of backing off', async () => {
+    paypal.respondWith({ status: 429, headers: { 'Retry-After': '1' } });
+    
+    await createAxios(1, 10000).get('/v2/checkout/orders/ORDER-1');
+    
+    const wait = paypal.requests[1].time - paypal.requests[0].time;
+    expect(wait).toBeGreaterThanOrEqual(990);
+    expect(wait).toBeLessThan(3000);
+  });
+  
+  it('retries at once when Retry-After is zero or a date that has passed', async () => {
+    paypal.respondWith(
+      { status: 429, headers: { 'Retry-After': '0' } },
+      { status: 503, headers: { 'Retry-After': new Date(Date.now() - 60000).toUTCString() } }
+    );
+    
+    await createAxios(2, 10000).get('/v2/checkout/orders/ORDER-1');
+    
+    expect(paypal.requests).toHaveLength(3);
+    expect(paypal.requests[2].time - paypal.requests[0].time).toBeLessThan(1000);
+  });
+  
+  it('backs off exponentially without Retry-After', async () => {
+    paypal.respondWith({ status: 503 }, { status: 503 });
+    
+    await createAxios(2, 200).get('/v2/checkout/orders/ORDER-1');
+    
+    // Each delay is between half and all of the base delay doubled per attempt
+    const [first, second, third] = paypal.requests.map(request => request.time);
+    expect(second - first).toBeGreaterThanOrEqual(95);
+    expect(third - second).toBeGreaterThanOrEqual(195);
+  });
+});
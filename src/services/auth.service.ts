@@ -5,9 +5,10 @@
  * automatic token refresh, and credential verification.
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosError, AxiosHeaders, AxiosInstance, AxiosRequestConfig } from 'axios';
 import { logger } from '../utils/logger.js';
-import { sanitizeForLogging } from '../utils/validation.js';
+import { sanitizeForLogging } from '../utils/sanitize.js';
+import { toPayPalError } from '../utils/errors.js';
 
 /**
  * Authentication service configuration
@@ -16,6 +17,59 @@ interface PayPalAuthConfig {
   clientId: string;
   clientSecret: string;
   environment: 'sandbox' | 'live';
+  baseUrl?: string; // Overrides the environment's API URL, e.g. for a local stand-in
+  timeout?: number; // Milliseconds before a request is abandoned
+  maxRetries?: number; // Retries for transient failures
+  retryDelay?: number; // Base delay in milliseconds, doubled on each retry
+}
+
+/**
+ * HTTP methods that can be repeated without changing the outcome
+ */
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/**
+ * Longest delay between two attempts of a request
+ */
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * Whether a failed request is worth retrying
+ * 
+ * Rate limits, server errors and network errors are transient. Requests are
+ * only repeated when that cannot apply the same operation twice, which is the
+ * case for idempotent methods and for requests carrying a PayPal-Request-Id.
+ */
+function isRetryable(error: AxiosError): boolean {
+  if (!error.config || axios.isCancel(error)) {
+    return false;
+  }
+  
+  const status = error.response?.status;
+  if (status !== undefined && status !== 429 && status < 500) {
+    return false;
+  }
+  
+  const method = (error.config.method || 'get').toLowerCase();
+  return IDEMPOTENT_METHODS.includes(method) || AxiosHeaders.from(error.config.headers).has('PayPal-Request-Id');
+}
+
+/**
+ * Delay before the next attempt, honoring Retry-After when PayPal sends it
+ * and otherwise backing off exponentially with jitter
+ */
+function getRetryDelay(error: AxiosError, attempt: number, baseDelay: number): number {
+  const retryAfter = error.response?.headers?.['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY_MS);
+    }
+  }
+  
+  const backoff = Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return backoff / 2 + Math.random() * (backoff / 2);
 }
 
 /**
@@ -45,13 +99,14 @@ export class PayPalAuthService {
    */
   constructor(config: PayPalAuthConfig) {
     this.config = config;
-    this.baseUrl = config.environment === 'sandbox'
+    this.baseUrl = config.baseUrl || (config.environment === 'sandbox'
       ? 'https://api-m.sandbox.paypal.com'
-      : 'https://api-m.paypal.com';
+      : 'https://api-m.paypal.com');
     
     // Create axios instance with default configuration
     this.axiosInstance = axios.create({
       baseURL: this.baseUrl,
+      timeout: config.timeout,
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
@@ -78,12 +133,23 @@ export class PayPalAuthService {
     
     // Add response interceptor for error handling
     this.axiosInstance.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        // Log the debug_id PayPal support needs to trace a request
+        logger.info('PayPal API request', {
+          method: response.config.method?.toUpperCase(),
+          url: response.config.url,
+          status: response.status,
+          debug_id: response.headers['paypal-debug-id'],
+        });
+        
+        return response;
+      },
       async (error) => {
         if (error.response) {
           // Log API errors
           logger.error('PayPal API Error:', {
             status: error.response.status,
+            debug_id: error.response.headers?.['paypal-debug-id'] || error.response.data?.debug_id,
             data: sanitizeForLogging(error.response.data),
             url: error.config.url,
             method: error.config.method,
@@ -93,22 +159,24 @@ export class PayPalAuthService {
           if (error.response.status === 401 && error.config && !error.config.__isRetry) {
             logger.info('Access token expired, refreshing...');
             
-            // Clear token and retry
+            // Clear token and retry; the request interceptor adds the new token
             this.tokenData = null;
-            await this.ensureAccessToken();
             
-            // Clone the original request
-            const newRequest = { ...error.config, __isRetry: true };
-            
-            // Add new token
-            if (this.tokenData) {
-              newRequest.headers.Authorization = `${this.tokenData.token_type} ${this.tokenData.access_token}`;
-            }
-            
-            return this.axiosInstance(newRequest);
+            return this.axiosInstance({ ...error.config, __isRetry: true });
           }
         }
         
+        // Retry transient failures with backoff
+        const attempt = error.config?.__retryCount || 0;
+        if (attempt < (this.config.maxRetries || 0) && isRetryable(error)) {
+          const delay = getRetryDelay(error, attempt, this.config.retryDelay || 1000);
+          logger.warn(`Retrying ${error.config.method?.toUpperCase()} ${error.config.url} in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${this.config.maxRetries}): ${error.response?.status || error.code}`);
+          
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          
+          return this.axiosInstance({ ...error.config, __retryCount: attempt + 1 });
+        }
+        
         return Promise.reject(error);
       }
     );
@@ -146,6 +214,7 @@ export class PayPalAuthService {
       
       // Request configuration
       const config: AxiosRequestConfig = {
+        timeout: this.config.timeout,
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
           'Authorization': `Basic ${auth}`,
@@ -160,15 +229,16 @@ export class PayPalAuthService {
       );
       
       // Store token with expiration
-      this.tokenData = response.data;
-      this.tokenData.expiration = Date.now() + (this.tokenData.expires_in * 1000) - 60000; // Subtract 1 minute for safety
+      const tokenData: TokenResponse = response.data;
+      tokenData.expiration = Date.now() + (tokenData.expires_in * 1000) - 60000; // Subtract 1 minute for safety
+      this.tokenData = tokenData;
       
       logger.info('Successfully obtained new access token');
       
-      return this.tokenData.access_token;
+      return tokenData.access_token;
     } catch (error) {
       logger.error('Failed to get access token:', error);
-      throw new Error('Failed to authenticate with PayPal API');
+      throw toPayPalError(error, 'Failed to authenticate with PayPal API');
     }
   }
   
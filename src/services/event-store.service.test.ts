@@ -0,0 +1,74 @@
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebhookEventStore } from './event-store.service.js';
+
+const record = (id: string, receivedAt = '2024-03-05T10:00:00.000Z') => ({
+  received_at: receivedAt,
+  transmission_id: `transmission-${id}`,
+  event: { id, event_type: 'PAYMENT.CAPTURE.COMPLETED', resource_type: 'capture', resource: { id: `capture-${id}` } },
+});
+
+describe('WebhookEventStore', () => {
+  let root: string;
+  let filePath: string;
+  
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'paypal-events-'));
+    filePath = join(root, 'data', 'webhook-events.jsonl');
+  });
+  
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+  
+  it('stores each event once and reloads it from disk', async () => {
+    const store = new WebhookEventStore(filePath);
+    
+    expect(await store.add(record('WH-1'))).toBe(true);
+    expect(await store.add(record('WH-1'))).toBe(false);
+    
+    const reloaded = new WebhookEventStore(filePath);
+    expect(await reloaded.get('WH-1')).toEqual(record('WH-1'));
+    expect(await reloaded.add(record('WH-1'))).toBe(false);
+    expect((await readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(1);
+  });
+  
+  it('writes concurrent deliveries of the same event once', async () => {
+    const store = new WebhookEventStore(filePath);
+    
+    const results = await Promise.all([store.add(record('WH-1')), store.add(record('WH-1'))]);
+    
+    expect(results.sort()).toEqual([false, true]);
+    expect((await readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(1);
+  });
+  
+  it('stores a redelivery of an event whose write failed', async () => {
+    const store = new WebhookEventStore(filePath);
+    expect(await store.list()).toEqual([]);
+    
+    // A directory in place of the file makes the append fail
+    await mkdir(filePath, { recursive: true });
+    await expect(store.add(record('WH-1'))).rejects.toThrow();
+    expect(await store.get('WH-1')).toBeUndefined();
+    
+    await rm(filePath, { recursive: true });
+    expect(await store.add(record('WH-1'))).toBe(true);
+    expect(await new WebhookEventStore(filePath).get('WH-1')).toEqual(record('WH-1'));
+  });
+  
+  it('lists events newest first, filtered and limited', async () => {
+    const store = new WebhookEventStore(filePath);
+    await store.add(record('WH-1', '2024-03-01T00:00:00.000Z'));
+    await store.add(record('WH-2', '2024-03-03T00:00:00.000Z'));
+    await store.add({ ...record('WH-3', '2024-03-02T00:00:00.000Z'), event: { id: 'WH-3', event_type: 'BILLING.SUBSCRIPTION.CREATED' } });
+    
+    const ids = async (filter = {}) => (await store.list(filter)).map(stored => stored.event.id);
+    
+    expect(await ids()).toEqual(['WH-2', 'WH-3', 'WH-1']);
+    expect(await ids({ event_type: 'PAYMENT.CAPTURE.COMPLETED' })).toEqual(['WH-2', 'WH-1']);
+    expect(await ids({ resource_id: 'capture-WH-1' })).toEqual(['WH-1']);
+    expect(await ids({ since: '2024-03-02T00:00:00Z' })).toEqual(['WH-2', 'WH-3']);
+    expect(await ids({ limit: 1 })).toEqual(['WH-2']);
+  });
+});
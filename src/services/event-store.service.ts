@@ -0,0 +1,152 @@
+/**
+ * Webhook Event Store
+ * 
+ * Stores verified PayPal webhook events durably in an append-only JSON lines
+ * file so they survive restarts and can be queried by the webhook event tools.
+ */
+
+import { mkdir, open, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A webhook event as stored on disk
+ */
+export interface StoredWebhookEvent {
+  received_at: string;
+  transmission_id?: string;
+  event: Record<string, any>;
+}
+
+/**
+ * Filters for listing stored events
+ */
+export interface WebhookEventFilter {
+  event_type?: string;
+  resource_type?: string;
+  resource_id?: string;
+  since?: string;
+  limit?: number;
+}
+
+/**
+ * Webhook Event Store
+ */
+export class WebhookEventStore {
+  private filePath: string;
+  private events: Promise<Map<string, StoredWebhookEvent>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  
+  /**
+   * Create a new webhook event store backed by the given file
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+  
+  /**
+   * Load stored events from disk on first use, sharing one read between
+   * concurrent first calls
+   */
+  private load(): Promise<Map<string, StoredWebhookEvent>> {
+    if (!this.events) {
+      this.events = this.readEvents().catch((error) => {
+        this.events = null;
+        throw error;
+      });
+    }
+    return this.events;
+  }
+  
+  /**
+   * Read all stored events from disk
+   */
+  private async readEvents(): Promise<Map<string, StoredWebhookEvent>> {
+    const events = new Map<string, StoredWebhookEvent>();
+    
+    try {
+      const contents = await readFile(this.filePath, 'utf8');
+      for (const line of contents.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        
+        try {
+          const record: StoredWebhookEvent = JSON.parse(line);
+          events.set(record.event.id, record);
+        } catch (error) {
+          logger.warn(`Skipping unreadable line in webhook event store ${this.filePath}`);
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    
+    return events;
+  }
+  
+  /**
+   * Store an event, ignoring redeliveries of an event that is already stored
+   * 
+   * @returns true if the event was new
+   */
+  public async add(record: StoredWebhookEvent): Promise<boolean> {
+    const events = await this.load();
+    
+    // Serialize writes and sync each one so an acknowledged event is never lost.
+    // The event is only remembered once it is on disk, so a redelivery after a
+    // failed write is stored rather than ignored as a duplicate.
+    const write = this.writeQueue.then(async () => {
+      if (events.has(record.event.id)) {
+        return false;
+      }
+      
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const file = await open(this.filePath, 'a');
+      try {
+        await file.write(JSON.stringify(record) + '\n');
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+      
+      events.set(record.event.id, record);
+      return true;
+    });
+    this.writeQueue = write.then(() => undefined, () => undefined);
+    
+    return write;
+  }
+  
+  /**
+   * Get a stored event by its ID
+   */
+  public async get(eventId: string): Promise<StoredWebhookEvent | undefined> {
+    const events = await this.load();
+    return events.get(eventId);
+  }
+  
+  /**
+   * List stored events, newest first
+   */
+  public async list(filter: WebhookEventFilter = {}): Promise<StoredWebhookEvent[]> {
+    const events = await this.load();
+    const since = filter.since ? new Date(filter.since).getTime() : undefined;
+    
+    return [...events.values()]
+      .filter(record => !filter.event_type || record.event.event_type === filter.event_type)
+      .filter(record => !filter.resource_type || record.event.resource_type === filter.resource_type)
+      .filter(record => !filter.resource_id || record.event.resource?.id === filter.resource_id)
+      .filter(record => since === undefined || new Date(record.received_at).getTime() >= since)
+      .sort((a, b) => b.received_at.localeCompare(a.received_at))
+      .slice(0, filter.limit || 50);
+  }
+}
+
+/**
+ * Shared event store used by the webhook receiver and the webhook event tools
+ */
+export const webhookEventStore = new WebhookEventStore(config.webhooks.eventStorePath);
@@ -0,0 +1,143 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportService } from './http-transport.service.js';
+
+const AUTH_TOKEN = 'test-token';
+
+/**
+ * Create MCP servers that each list one tool named after the order they were
+ * created in, so responses show which session answered
+ */
+function createServerFactory() {
+  let created = 0;
+  return () => {
+    const name = `session_${++created}`;
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name, inputSchema: { type: 'object' as const } }],
+    }));
+    return server;
+  };
+}
+
+describe('HttpTransportService', () => {
+  let transport: HttpTransportService;
+  let baseUrl: string;
+  const streams: AbortController[] = [];
+  
+  const start = async (sessionIdleTimeout = 60000) => {
+    transport = new HttpTransportService(
+      { host: '127.0.0.1', port: 0, path: '/mcp', authToken: AUTH_TOKEN, sessionIdleTimeout },
+      createServerFactory()
+    );
+    baseUrl = `http://127.0.0.1:${await transport.start()}`;
+  };
+  
+  afterEach(async () => {
+    streams.splice(0).forEach(stream => stream.abort());
+    await transport.stop();
+  });
+  
+  /**
+   * Send a JSON-RPC message and return the response with its parsed result,
+   * which the transport sends either as JSON or as a server-sent event
+   */
+  const post = async (message: Record<string, any>, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${AUTH_TOKEN}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+    });
+    const text = await response.text();
+    const data = text.split('\n').find(line => line.startsWith('data: '))?.slice('data: '.length) ?? text;
+    return { response, body: data ? JSON.parse(data) : undefined };
+  };
+  
+  const openSession = async () => {
+    const { response } = await post({
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+    });
+    const sessionId = response.headers.get('mcp-session-id')!;
+    await post({ method: 'notifications/initialized' }, { 'mcp-session-id': sessionId });
+    return sessionId;
+  };
+  
+  const listTools = async (sessionId: string) => {
+    const { response, body } = await post({ id: 2, method: 'tools/list' }, { 'mcp-session-id': sessionId });
+    return { status: response.status, tools: body?.result?.tools?.map((tool: any) => tool.name) };
+  };
+  
+  const health = async () => (await (await fetch(`${baseUrl}/health`)).json()).sessions;
+  
+  it.each([
+    ['a missing', undefined],
+    ['a wrong', 'Bearer wrong-token'],
+    ['a malformed', AUTH_TOKEN],
+  ])('rejects requests with %s bearer token', async (_case, authorization) => {
+    await start();
+    
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(authorization ? { Authorization: authorization } : {}) },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await health()).toBe(0);
+  });
+  
+  it('rejects unknown session IDs and requests without a session that are not initialize', async () => {
+    await start();
+    
+    expect((await listTools('unknown-session')).status).toBe(404);
+    expect((await post({ id: 1, method: 'tools/list' })).response.status).toBe(400);
+  });
+  
+  it('keeps concurrent sessions separate', async () => {
+    await start();
+    
+    const [first, second] = await Promise.all([openSession(), openSession()]);
+    
+    expect(first).not.toBe(second);
+    expect(await health()).toBe(2);
+    const tools = [(await listTools(first)).tools, (await listTools(second)).tools];
+    expect(tools.flat().sort()).toEqual(['session_1', 'session_2']);
+    
+    const closed = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${AUTH_TOKEN}`, 'mcp-session-id': first },
+    });
+    expect(closed.status).toBe(200);
+    expect(await health()).toBe(1);
+    expect((await listTools(first)).status).toBe(404);
+    expect((await listTools(second)).tools).toEqual(tools[1]);
+  });
+  
+  it('closes idle sessions but not sessions with an open event stream', async () => {
+    await start(200);
+    const idle = await openSession();
+    const streaming = await openSession();
+    
+    const stream = new AbortController();
+    streams.push(stream);
+    const response = await fetch(`${baseUrl}/mcp`, {
+      headers: { 'Authorization': `Bearer ${AUTH_TOKEN}`, 'Accept': 'text/event-stream', 'mcp-session-id': streaming },
+      signal: stream.signal,
+    });
+    expect(response.status).toBe(200);
+    
+    await new Promise(resolve => setTimeout(resolve, 700));
+    
+    expect(await health()).toBe(1);
+    expect((await listTools(idle)).status).toBe(404);
+    expect((await listTools(streaming)).status).toBe(200);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * HTTP Transport Service
+ * 
+ * Serves MCP over the streamable HTTP transport so several clients can share
+ * one server. Each client session gets its own MCP server instance, while the
+ * tool handlers share the PayPal authentication service passed to the factory.
+ */
+
+import http from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * HTTP transport configuration
+ */
+interface HttpTransportConfig {
+  host: string;
+  port: number;
+  path: string;
+  authToken: string;
+  sessionIdleTimeout: number;
+}
+
+/**
+ * An open MCP session
+ */
+interface McpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  openRequests: number;
+}
+
+/**
+ * Largest JSON-RPC message body the transport accepts
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Error raised for requests the transport rejects
+ */
+class HttpTransportError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * HTTP Transport Service
+ */
+export class HttpTransportService {
+  private config: HttpTransportConfig;
+  private createServer: () => Server;
+  private sessions = new Map<string, McpSession>();
+  private httpServer: http.Server | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  
+  /**
+   * Create a new HTTP transport
+   * 
+   * @param createServer Builds a fully configured MCP server for a new session
+   */
+  constructor(config: HttpTransportConfig, createServer: () => Server) {
+    this.config = config;
+    this.createServer = createServer;
+  }
+  
+  /**
+   * Start listening for MCP clients
+   * 
+   * @returns The port the transport is listening on
+   */
+  public async start(): Promise<number> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        if (error instanceof HttpTransportError) {
+          logger.warn(`Rejected MCP request (${error.statusCode}): ${error.message}`);
+          this.sendError(res, error.statusCode, error.message);
+        } else {
+          logger.error('Failed to handle MCP request:', error);
+          this.sendError(res, 500, 'Internal server error');
+        }
+      });
+    });
+    
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.config.port, this.config.host, () => resolve());
+    });
+    
+    // Close sessions whose clients went away without ending them
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.config.sessionIdleTimeout, 60000));
+    this.sweepTimer.unref();
+    
+    const address = this.httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : this.config.port;
+    logger.info(`MCP HTTP transport listening on ${this.config.host}:${port}${this.config.path}`);
+    
+    return port;
+  }
+  
+  /**
+   * Close all sessions and stop listening
+   */
+  public async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    
+    await Promise.all([...this.sessions.values()].map(session => session.server.close()));
+    this.sessions.clear();
+    
+    if (!this.httpServer) {
+      return;
+    }
+    
+    await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+    this.httpServer = null;
+  }
+  
+  /**
+   * Route a single HTTP request to the session it belongs to
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+      return;
+    }
+    
+    if (url.pathname !== this.config.path) {
+      throw new HttpTransportError(404, `Unknown path: ${url.pathname}`);
+    }
+    
+    if (!this.isAuthorized(req.headers.authorization)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      throw new HttpTransportError(401, 'Missing or invalid bearer token');
+    }
+    
+    if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+      throw new HttpTransportError(405, `Unsupported method: ${req.method}`);
+    }
+    
+    const body = req.method === 'POST' ? await this.readBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        throw new HttpTransportError(404, `Unknown session: ${sessionId}`);
+      }
+      
+      // Requests can stay open for a long time, such as a GET event stream,
+      // so the session only counts as idle once they have all finished
+      session.lastSeen = Date.now();
+      session.openRequests++;
+      res.once('close', () => {
+        session.openRequests--;
+        session.lastSeen = Date.now();
+      });
+      
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpTransportError(400, 'Requests without a session ID must be an initialize request');
+    }
+    
+    await this.startSession(req, res, body);
+  }
+  
+  /**
+   * Create a server and transport for a new client and let the transport
+   * answer its initialize request
+   */
+  private async startSession(req: http.IncomingMessage, res: http.ServerResponse, body: unknown): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { server, transport, lastSeen: Date.now(), openRequests: 0 });
+        logger.info(`Opened MCP session ${sessionId} (${this.sessions.size} active)`);
+      },
+    });
+    
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        logger.info(`Closed MCP session ${sessionId} (${this.sessions.size} active)`);
+      }
+    };
+    
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+  
+  /**
+   * Close sessions that have no open requests and have not been used within
+   * the idle timeout
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.config.sessionIdleTimeout;
+    
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openRequests === 0 && session.lastSeen < cutoff) {
+        logger.info(`Closing idle MCP session ${sessionId}`);
+        session.server.close().catch((error) => {
+          logger.error(`Failed to close MCP session ${sessionId}:`, error);
+        });
+      }
+    }
+  }
+  
+  /**
+   * Check the bearer token without leaking its length or contents through timing
+   */
+  private isAuthorized(header: string | undefined): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(header || '');
+    if (!match) {
+      return false;
+    }
+    
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(match[1]), digest(this.config.authToken));
+  }
+  
+  /**
+   * Read and parse the JSON-RPC request body, enforcing the size limit
+   */
+  private readBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpTransportError(413, 'Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch (error) {
+          reject(new HttpTransportError(400, 'Request body is not valid JSON'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+  
+  /**
+   * Send a JSON-RPC error response, unless the transport already responded
+   */
+  private sendError(res: http.ServerResponse, statusCode: number, message: string): void {
+    if (res.headersSent) {
+      return;
+    }
+    
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    }));
+  }
+}
@@ -0,0 +1,220 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { PayPalAuthService } from './auth.service.js';
+import { IdempotencyStore } from './idempotency.service.js';
+import { paymentTools } from '../tools/payment.tools.js';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const RETRY_WINDOW_SECONDS = 600;
+
+describe('IdempotencyStore', () => {
+  let root: string;
+  let filePath: string;
+  let operation: jest.Mock;
+  
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'paypal-idempotency-'));
+    filePath = join(root, 'data', 'idempotency-keys.jsonl');
+    operation = jest.fn(async (key: string) => ({ id: `REFUND-${operation.mock.calls.length}`, key }));
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+  
+  const storedLines = async () => (await readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+  
+  it('sends identical calls without a key with the same derived request ID', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    
+    const first = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-1', amount: { currency_code: 'USD', value: '5.00' } }, operation);
+    // Key order does not change the arguments
+    const second = await store.execute('refund_capture', undefined, { amount: { value: '5.00', currency_code: 'USD' }, capture_id: 'CAPTURE-1' }, operation);
+    const otherArgs = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-2' }, operation);
+    const otherTool = await store.execute('void_authorization', undefined, { capture_id: 'CAPTURE-1', amount: { currency_code: 'USD', value: '5.00' } }, operation);
+    
+    expect(first.key).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.key).toBe(first.key);
+    expect(otherArgs.key).not.toBe(first.key);
+    expect(otherTool.key).not.toBe(first.key);
+  });
+  
+  it('sends every call without a key to PayPal and stores none of them', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    
+    const first = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-1' }, operation);
+    const second = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-1' }, operation);
+    
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(first.replayed).toBeUndefined();
+    expect(second.replayed).toBeUndefined();
+    await expect(readFile(filePath, 'utf8')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+  
+  it('derives a new request ID once the retry window has passed', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    
+    const first = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-1' }, operation);
+    clock.mockReturnValue(now + (RETRY_WINDOW_SECONDS - 1) * 1000);
+    const retry = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-1' }, operation);
+    // The window restarts with every retry
+    clock.mockReturnValue(now + (2 * RETRY_WINDOW_SECONDS - 2) * 1000);
+    const secondRetry = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-1' }, operation);
+    clock.mockReturnValue(now + (3 * RETRY_WINDOW_SECONDS) * 1000);
+    const later = await store.execute('refund_capture', undefined, { capture_id: 'CAPTURE-1' }, operation);
+    
+    expect(retry.key).toBe(first.key);
+    expect(secondRetry.key).toBe(first.key);
+    expect(later.key).not.toBe(first.key);
+  });
+  
+  it('sends each call of a repeatable tool without a key with a new random request ID', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    const args = { subscription_id: 'I-1' };
+    
+    const first = await store.execute('activate_subscription', undefined, args, operation, true);
+    const second = await store.execute('activate_subscription', undefined, args, operation, true);
+    
+    expect(first.key).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    expect(second.key).not.toBe(first.key);
+  });
+  
+  it('sends a retried create_order without a key with the same PayPal-Request-Id', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    const createOrder = paymentTools.find(tool => tool.name === 'create_order')!;
+    const post = jest.fn(async () => ({ data: { id: 'ORDER-1', status: 'CREATED' } }));
+    const authService = { getAxiosInstance: () => ({ post }) } as unknown as PayPalAuthService;
+    const args = { intent: 'CAPTURE', purchase_units: [{ amount: { currency_code: 'USD', value: '25.00' } }] };
+    
+    for (let i = 0; i < 2; i++) {
+      await store.execute('create_order', undefined, args, (key) => createOrder.handler({ ...args, idempotency_key: key }, authService));
+    }
+    
+    const requestIds = post.mock.calls.map(call => (call as any[])[2].headers['PayPal-Request-Id']);
+    expect(requestIds).toHaveLength(2);
+    expect(requestIds[0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(requestIds[1]).toBe(requestIds[0]);
+  });
+  
+  it('replays the stored result of a call repeated with the same key', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    const args = { capture_id: 'CAPTURE-1', amount: { value: '5.00', currency_code: 'USD' } };
+    
+    const first = await store.execute('refund_capture', 'key-1', args, operation);
+    // Key order does not change the arguments
+    const second = await store.execute('refund_capture', 'key-1', { amount: { currency_code: 'USD', value: '5.00' }, capture_id: 'CAPTURE-1' }, operation);
+    
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(operation).toHaveBeenCalledWith('key-1');
+    expect(first).toEqual({ id: 'REFUND-1', key: 'key-1' });
+    expect(second).toEqual({ id: 'REFUND-1', key: 'key-1', replayed: true });
+  });
+  
+  it('keeps results across restarts', async () => {
+    await new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS).execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation);
+    
+    const result = await new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS).execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation);
+    
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ id: 'REFUND-1', key: 'key-1', replayed: true });
+    expect(await storedLines()).toEqual([
+      expect.objectContaining({ tool: 'refund_capture', idempotency_key: 'key-1', result: { id: 'REFUND-1', key: 'key-1' } }),
+    ]);
+  });
+  
+  it('rejects a key reused with different arguments', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    await store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation);
+    
+    await expect(store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-2' }, operation)).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('key-1 was already used for a refund_capture call with different arguments'),
+    });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+  
+  it('keeps the keys of different tools apart', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    
+    await store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation);
+    await store.execute('void_authorization', 'key-1', { authorization_id: 'AUTH-1' }, operation);
+    
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+  
+  it('does not store failed calls, so they can be retried with the same key', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    operation.mockRejectedValueOnce(new Error('PayPal returned 500'));
+    
+    await expect(store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation)).rejects.toThrow('PayPal returned 500');
+    const result = await store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation);
+    
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(result.replayed).toBeUndefined();
+  });
+  
+  it('sends concurrent calls with the same key once', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    
+    const results = await Promise.all([
+      store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation),
+      store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation),
+    ]);
+    
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      { id: 'REFUND-1', key: 'key-1' },
+      { id: 'REFUND-1', key: 'key-1', replayed: true },
+    ]);
+  });
+  
+  it('runs a call again once its stored result has expired', async () => {
+    const store = new IdempotencyStore(filePath, 60, RETRY_WINDOW_SECONDS);
+    await store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation);
+    
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+    const result = await store.execute('refund_capture', 'key-1', { capture_id: 'CAPTURE-1' }, operation);
+    
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ id: 'REFUND-2', key: 'key-1' });
+  });
+  
+  it('drops expired results from the file when loading it', async () => {
+    const record = (key: string, createdAt: Date) => JSON.stringify({
+      tool: 'refund_capture',
+      idempotency_key: key,
+      fingerprint: 'fingerprint',
+      created_at: createdAt.toISOString(),
+      result: { id: key },
+    });
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, [
+      record('old', new Date(Date.now() - 2 * DAY_SECONDS * 1000)),
+      'not json',
+      record('new', new Date()),
+      '',
+    ].join('\n'));
+    
+    await expect(new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS).execute('refund_capture', 'old', {}, operation)).resolves.not.toHaveProperty('replayed');
+    
+    expect((await storedLines()).map(line => line.idempotency_key)).toEqual(['new', 'old']);
+  });
+  
+  it('marks replayed results that are not objects', async () => {
+    const store = new IdempotencyStore(filePath, DAY_SECONDS, RETRY_WINDOW_SECONDS);
+    const listOperation = jest.fn(async () => ['TRACKER-1', 'TRACKER-2']);
+    
+    await store.execute('add_tracking_bulk', 'key-1', {}, listOperation);
+    
+    expect(await store.execute('add_tracking_bulk', 'key-1', {}, listOperation)).toEqual({
+      result: ['TRACKER-1', 'TRACKER-2'],
+      replayed: true,
+    });
+  });
+});
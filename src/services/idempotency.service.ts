@@ -0,0 +1,298 @@
+/**
+ * Idempotency Store
+ * 
+ * Remembers the results of tools that create or change something in PayPal,
+ * keyed by the idempotency key the caller sent as the PayPal-Request-Id, so
+ * that a repeated call returns the original result instead of charging or
+ * paying out twice. Calls without a key get a PayPal-Request-Id derived from
+ * their arguments, so PayPal recognizes a retry of the same call.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, open, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A tool result as stored on disk
+ */
+interface StoredResult {
+  tool: string;
+  idempotency_key: string;
+  fingerprint: string;
+  created_at: string;
+  result: any;
+}
+
+/**
+ * A call that is still waiting for PayPal
+ */
+interface PendingCall {
+  fingerprint: string;
+  promise: Promise<any>;
+}
+
+/**
+ * A PayPal-Request-Id derived for calls without an idempotency key
+ */
+interface DerivedKey {
+  key: string;
+  lastUsed: number;
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted, so equal arguments
+ * always produce the same fingerprint
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Mark a stored result as the result of an earlier call
+ */
+function markReplayed(result: any): Record<string, any> {
+  return result && typeof result === 'object' && !Array.isArray(result)
+    ? { ...result, replayed: true }
+    : { result, replayed: true };
+}
+
+/**
+ * Idempotency Store
+ */
+export class IdempotencyStore {
+  private filePath: string;
+  private ttlSeconds: number;
+  private retryWindowSeconds: number;
+  private results: Promise<Map<string, StoredResult>> | null = null;
+  private pending = new Map<string, PendingCall>();
+  private derivedKeys = new Map<string, DerivedKey>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  
+  /**
+   * Create a new idempotency store backed by the given file
+   */
+  constructor(filePath: string, ttlSeconds: number, retryWindowSeconds: number) {
+    this.filePath = filePath;
+    this.ttlSeconds = ttlSeconds;
+    this.retryWindowSeconds = retryWindowSeconds;
+  }
+  
+  /**
+   * Run a tool call at most once per idempotency key
+   * 
+   * The operation receives the key to send as its PayPal-Request-Id. Only
+   * successful results are stored, so a failed call can be retried with the
+   * same key. Results of repeated calls are marked with replayed: true.
+   * 
+   * Calls without a key are always sent. They get a key derived from a hash
+   * of the tool name and arguments, so PayPal recognizes a retry instead of
+   * charging twice, unless the tool is repeatable, where identical calls are
+   * deliberate and each one gets a random key.
+   */
+  public async execute(
+    tool: string,
+    idempotencyKey: string | undefined,
+    args: Record<string, any>,
+    operation: (idempotencyKey: string) => Promise<any>,
+    repeatable = false
+  ): Promise<any> {
+    const fingerprint = createHash('sha256').update(`${tool}\n${stableStringify(args)}`).digest('hex');
+    
+    if (!idempotencyKey) {
+      return operation(repeatable ? randomUUID() : this.deriveKey(fingerprint));
+    }
+    
+    const id = `${tool}:${idempotencyKey}`;
+    
+    const results = await this.load();
+    const stored = results.get(id);
+    
+    if (stored && !this.isExpired(stored)) {
+      this.assertSameArguments(stored.fingerprint, fingerprint, tool, idempotencyKey);
+      logger.info(`Returning stored result of ${tool} for idempotency key ${idempotencyKey}`);
+      return markReplayed(stored.result);
+    }
+    
+    // Concurrent calls with the same key wait for the first one instead of sending again
+    const pending = this.pending.get(id);
+    if (pending) {
+      this.assertSameArguments(pending.fingerprint, fingerprint, tool, idempotencyKey);
+      logger.info(`Waiting for in-flight ${tool} call with idempotency key ${idempotencyKey}`);
+      return markReplayed(await pending.promise);
+    }
+    
+    const promise = operation(idempotencyKey).then(async (result) => {
+      await this.add({
+        tool,
+        idempotency_key: idempotencyKey,
+        fingerprint,
+        created_at: new Date().toISOString(),
+        result,
+      });
+      return result;
+    });
+    
+    this.pending.set(id, { fingerprint, promise });
+    try {
+      return await promise;
+    } finally {
+      this.pending.delete(id);
+    }
+  }
+  
+  /**
+   * Key for a call without an idempotency key
+   * 
+   * Identical calls share the key as long as each follows the previous one
+   * within the retry window. After that a new key is derived, so a later
+   * identical call, such as a second partial refund of the same amount, is
+   * sent as a new request.
+   */
+  private deriveKey(fingerprint: string): string {
+    const now = Date.now();
+    const windowMs = this.retryWindowSeconds * 1000;
+    
+    const derived = this.derivedKeys.get(fingerprint);
+    if (derived && now - derived.lastUsed <= windowMs) {
+      derived.lastUsed = now;
+      return derived.key;
+    }
+    
+    for (const [previous, { lastUsed }] of this.derivedKeys) {
+      if (now - lastUsed > windowMs) {
+        this.derivedKeys.delete(previous);
+      }
+    }
+    
+    const key = createHash('sha256').update(`${fingerprint}\n${now}`).digest('hex');
+    this.derivedKeys.set(fingerprint, { key, lastUsed: now });
+    return key;
+  }
+  
+  /**
+   * Load stored results from disk on first use, sharing one read between
+   * concurrent first calls
+   */
+  private load(): Promise<Map<string, StoredResult>> {
+    if (!this.results) {
+      this.results = this.readResults().catch((error) => {
+        this.results = null;
+        throw error;
+      });
+    }
+    return this.results;
+  }
+  
+  /**
+   * Read unexpired results from disk, compacting the file when expired
+   * results were dropped
+   */
+  private async readResults(): Promise<Map<string, StoredResult>> {
+    const results = new Map<string, StoredResult>();
+    let dropped = 0;
+    
+    try {
+      const contents = await readFile(this.filePath, 'utf8');
+      for (const line of contents.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        
+        try {
+          const record: StoredResult = JSON.parse(line);
+          if (this.isExpired(record)) {
+            dropped++;
+          } else {
+            results.set(`${record.tool}:${record.idempotency_key}`, record);
+          }
+        } catch (error) {
+          logger.warn(`Skipping unreadable line in idempotency store ${this.filePath}`);
+          dropped++;
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    
+    if (dropped > 0) {
+      const temporaryPath = `${this.filePath}.tmp`;
+      await writeFile(temporaryPath, [...results.values()].map(record => JSON.stringify(record) + '\n').join(''));
+      await rename(temporaryPath, this.filePath);
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Store the result of a successful call
+   */
+  private async add(record: StoredResult): Promise<void> {
+    const results = await this.load();
+    results.set(`${record.tool}:${record.idempotency_key}`, record);
+    
+    // Serialize writes and sync each one so a completed payment is never forgotten
+    const write = this.writeQueue.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const file = await open(this.filePath, 'a');
+      try {
+        await file.write(JSON.stringify(record) + '\n');
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+    });
+    this.writeQueue = write.catch(() => undefined);
+    
+    try {
+      await write;
+    } catch (error) {
+      // The call already succeeded in PayPal, so report its result regardless
+      logger.error(`Failed to store result of ${record.tool} for idempotency key ${record.idempotency_key}:`, error);
+    }
+  }
+  
+  /**
+   * Whether a stored result is older than the retention period
+   */
+  private isExpired(record: StoredResult): boolean {
+    return Date.parse(record.created_at) + this.ttlSeconds * 1000 < Date.now();
+  }
+  
+  /**
+   * Reject a key that is reused with different arguments
+   */
+  private assertSameArguments(expected: string, actual: string, tool: string, key: string): void {
+    if (expected !== actual) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Idempotency key ${key} was already used for a ${tool} call with different arguments`
+      );
+    }
+  }
+}
+
+/**
+ * Shared idempotency store used for every idempotent tool call
+ */
+export const idempotencyStore = new IdempotencyStore(
+  config.idempotency.storePath,
+  config.idempotency.ttlSeconds,
+  config.idempotency.retryWindowSeconds
+);
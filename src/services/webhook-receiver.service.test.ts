@@ -0,0 +1,158 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PayPalAuthService } from './auth.service.js';
+import { WebhookEventStore } from './event-store.service.js';
+import { WebhookReceiverService } from './webhook-receiver.service.js';
+
+/**
+ * Local stand-in for the PayPal token and verify-webhook-signature APIs
+ */
+async function startPayPalStandIn() {
+  const verifications: { authorization?: string; body: string }[] = [];
+  let verificationStatus = 'SUCCESS';
+  let verificationHttpStatus = 200;
+  
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      res.setHeader('Content-Type', 'application/json');
+      
+      if (req.url === '/v1/oauth2/token') {
+        res.end(JSON.stringify({ access_token: 'test-token', token_type: 'Bearer', expires_in: 3600 }));
+      } else if (req.url === '/v1/notifications/verify-webhook-signature') {
+        verifications.push({ authorization: req.headers.authorization, body });
+        res.writeHead(verificationHttpStatus).end(JSON.stringify({ verification_status: verificationStatus }));
+      } else {
+        res.writeHead(404).end('{}');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    verifications,
+    respondWith(status: string, httpStatus = 200) {
+      verificationStatus = status;
+      verificationHttpStatus = httpStatus;
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+const transmissionHeaders = {
+  'paypal-auth-algo': 'SHA256withRSA',
+  'paypal-cert-url': 'https://api.paypal.com/v1/notifications/certs/CERT-1',
+  'paypal-transmission-id': 'transmission-1',
+  'paypal-transmission-sig': 'signature-1',
+  'paypal-transmission-time': '2024-03-05T10:00:00Z',
+};
+
+// Unusual spacing, so any re-serialization of the event would be noticed
+const eventBody = '{ "id":"WH-1",  "event_type":"PAYMENT.CAPTURE.COMPLETED", "resource":{"id":"CAPTURE-1","amount":{"value":"10.00"}} }';
+
+describe('WebhookReceiverService', () => {
+  let root: string;
+  let paypal: Awaited<ReturnType<typeof startPayPalStandIn>>;
+  let eventStore: WebhookEventStore;
+  let receiver: WebhookReceiverService;
+  let receiverUrl: string;
+  
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'paypal-webhooks-'));
+    paypal = await startPayPalStandIn();
+    eventStore = new WebhookEventStore(join(root, 'webhook-events.jsonl'));
+    
+    const authService = new PayPalAuthService({
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      environment: 'sandbox',
+      baseUrl: paypal.baseUrl,
+      maxRetries: 0,
+    });
+    receiver = new WebhookReceiverService(
+      { host: '127.0.0.1', port: 0, path: '/webhooks/paypal', webhookId: 'WEBHOOK-1' },
+      authService,
+      eventStore
+    );
+    receiverUrl = `http://127.0.0.1:${await receiver.start()}/webhooks/paypal`;
+  });
+  
+  afterEach(async () => {
+    await receiver.stop();
+    await paypal.close();
+    await rm(root, { recursive: true, force: true });
+  });
+  
+  const deliver = (body = eventBody, headers: Record<string, string> = transmissionHeaders) =>
+    fetch(receiverUrl, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+  
+  it('verifies the delivery with PayPal using the raw body and stores the event', async () => {
+    const response = await deliver();
+    
+    expect(response.status).toBe(200);
+    expect(paypal.verifications).toHaveLength(1);
+    expect(paypal.verifications[0].authorization).toBe('Bearer test-token');
+    expect(paypal.verifications[0].body).toBe(
+      '{"auth_algo":"SHA256withRSA","cert_url":"https://api.paypal.com/v1/notifications/certs/CERT-1",'
+      + '"transmission_id":"transmission-1","transmission_sig":"signature-1","transmission_time":"2024-03-05T10:00:00Z",'
+      + `"webhook_id":"WEBHOOK-1","webhook_event":${eventBody}}`
+    );
+    expect(await eventStore.get('WH-1')).toMatchObject({ transmission_id: 'transmission-1', event: JSON.parse(eventBody) });
+  });
+  
+  it('sends bodies containing $ replacement patterns to PayPal unchanged', async () => {
+    const body = '{"id":"WH-2","event_type":"INVOICING.INVOICE.PAID","resource":{"note":"pay $$ and get $& back, $` or $\' or $1"}}';
+    
+    const response = await deliver(body);
+    
+    expect(response.status).toBe(200);
+    expect(paypal.verifications[0].body.endsWith(`,"webhook_event":${body}}`)).toBe(true);
+    expect(await eventStore.get('WH-2')).toMatchObject({ event: JSON.parse(body) });
+  });
+  
+  it('acknowledges redeliveries without storing the event twice', async () => {
+    expect((await deliver()).status).toBe(200);
+    expect((await deliver()).status).toBe(200);
+    
+    expect(await eventStore.list()).toHaveLength(1);
+  });
+  
+  it('rejects deliveries that PayPal does not verify', async () => {
+    paypal.respondWith('FAILURE');
+    
+    const response = await deliver();
+    
+    expect(response.status).toBe(400);
+    expect(await eventStore.get('WH-1')).toBeUndefined();
+  });
+  
+  it('rejects deliveries without transmission headers before asking PayPal', async () => {
+    const { 'paypal-transmission-sig': _signature, ...headers } = transmissionHeaders;
+    
+    const response = await deliver(eventBody, headers);
+    
+    expect(response.status).toBe(400);
+    expect(paypal.verifications).toHaveLength(0);
+  });
+  
+  it('rejects bodies that are not PayPal events', async () => {
+    expect((await deliver('not json')).status).toBe(400);
+    expect((await deliver('{"id":"WH-1"}')).status).toBe(400);
+    expect(paypal.verifications).toHaveLength(0);
+  });
+  
+  it('fails with a server error when verification is unavailable, so PayPal retries', async () => {
+    paypal.respondWith('SUCCESS', 503);
+    
+    const response = await deliver();
+    
+    expect(response.status).toBe(500);
+    expect(await eventStore.get('WH-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Webhook Receiver Service
+ * 
+ * Optional HTTP listener that accepts PayPal webhook deliveries, verifies them
+ * with PayPal's verify-webhook-signature API and stores the verified events.
+ */
+
+import http from 'http';
+import { PayPalAuthService } from './auth.service.js';
+import { WebhookEventStore } from './event-store.service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Webhook receiver configuration
+ */
+interface WebhookReceiverConfig {
+  host: string;
+  port: number;
+  path: string;
+  webhookId: string;
+}
+
+/**
+ * Largest webhook body the receiver accepts
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Error raised for requests the receiver rejects
+ */
+class WebhookRequestError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Webhook Receiver Service
+ */
+export class WebhookReceiverService {
+  private config: WebhookReceiverConfig;
+  private authService: PayPalAuthService;
+  private eventStore: WebhookEventStore;
+  private server: http.Server | null = null;
+  
+  /**
+   * Create a new webhook receiver
+   */
+  constructor(config: WebhookReceiverConfig, authService: PayPalAuthService, eventStore: WebhookEventStore) {
+    this.config = config;
+    this.authService = authService;
+    this.eventStore = eventStore;
+  }
+  
+  /**
+   * Start listening for webhook deliveries
+   * 
+   * @returns The port the receiver is listening on
+   */
+  public async start(): Promise<number> {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req)
+        .then(() => {
+          res.writeHead(200).end();
+        })
+        .catch((error) => {
+          if (error instanceof WebhookRequestError) {
+            logger.warn(`Rejected webhook delivery (${error.statusCode}): ${error.message}`);
+            res.writeHead(error.statusCode).end();
+          } else {
+            // PayPal retries deliveries that fail with a server error
+            logger.error('Failed to process webhook delivery:', error);
+            res.writeHead(500).end();
+          }
+        });
+    });
+    
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.config.port, this.config.host, () => resolve());
+    });
+    
+    const address = this.server.address();
+    const port = typeof address === 'object' && address ? address.port : this.config.port;
+    logger.info(`Webhook receiver listening on ${this.config.host}:${port}${this.config.path}`);
+    
+    return port;
+  }
+  
+  /**
+   * Stop listening for webhook deliveries
+   */
+  public async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+  
+  /**
+   * Verify and store a single webhook delivery
+   */
+  private async handleRequest(req: http.IncomingMessage): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    
+    if (url.pathname !== this.config.path) {
+      throw new WebhookRequestError(404, `Unknown path: ${url.pathname}`);
+    }
+    
+    if (req.method !== 'POST') {
+      throw new WebhookRequestError(405, `Unsupported method: ${req.method}`);
+    }
+    
+    const body = await this.readBody(req);
+    
+    let event: Record<string, any>;
+    try {
+      event = JSON.parse(body);
+    } catch (error) {
+      throw new WebhookRequestError(400, 'Webhook body is not valid JSON');
+    }
+    
+    if (!event.id || !event.event_type) {
+      throw new WebhookRequestError(400, 'Webhook body is not a PayPal event');
+    }
+    
+    const transmissionId = req.headers['paypal-transmission-id'] as string | undefined;
+    const verified = await this.verifySignature(req.headers, body);
+    
+    if (!verified) {
+      throw new WebhookRequestError(400, `Webhook signature verification failed for event ${event.id}`);
+    }
+    
+    const isNew = await this.eventStore.add({
+      received_at: new Date().toISOString(),
+      transmission_id: transmissionId,
+      event,
+    });
+    
+    logger.info(`${isNew ? 'Stored' : 'Ignored duplicate'} webhook event ${event.id} (${event.event_type})`);
+  }
+  
+  /**
+   * Read the raw request body, enforcing the size limit
+   */
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new WebhookRequestError(413, 'Webhook body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+  
+  /**
+   * Verify a delivery using its transmission headers and PayPal's
+   * verify-webhook-signature API
+   */
+  private async verifySignature(headers: http.IncomingHttpHeaders, body: string): Promise<boolean> {
+    const header = (name: string) => headers[name] as string | undefined;
+    const transmission = {
+      auth_algo: header('paypal-auth-algo'),
+      cert_url: header('paypal-cert-url'),
+      transmission_id: header('paypal-transmission-id'),
+      transmission_sig: header('paypal-transmission-sig'),
+      transmission_time: header('paypal-transmission-time'),
+      webhook_id: this.config.webhookId,
+    };
+    
+    const missing = Object.entries(transmission).filter(([, value]) => !value).map(([key]) => key);
+    if (missing.length > 0) {
+      throw new WebhookRequestError(400, `Missing webhook transmission headers: ${missing.join(', ')}`);
+    }
+    
+    // Embed the raw body rather than re-serializing the parsed event, which
+    // could change its bytes and break the signature. Plain concatenation keeps
+    // $ sequences in the body from being read as replacement patterns.
+    const transmissionJson = JSON.stringify(transmission);
+    const payload = transmissionJson.slice(0, -1) + ',"webhook_event":' + body + '}';
+    
+    const axios = this.authService.getAxiosInstance();
+    const response = await axios.post('/v1/notifications/verify-webhook-signature', payload);
+    
+    return response.data.verification_status === 'SUCCESS';
+  }
+}
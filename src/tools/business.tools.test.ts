@@ -0,0 +1,146 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PayPalAuthService } from '../services/auth.service.js';
+import { businessTools } from './business.tools.js';
+
+const importPayoutsCsv = businessTools.find(tool => tool.name === 'import_payouts_csv')!;
+
+/**
+ * Auth service whose axios instance records payout submissions
+ */
+function createAuthService() {
+  const post = jest.fn(async (_url: string, body: any) => ({
+    data: {
+      batch_header: {
+        payout_batch_id: `PB-${body.sender_batch_header.sender_batch_id}`,
+        batch_status: 'PENDING',
+      },
+    },
+  }));
+  const authService = { getAxiosInstance: () => ({ post }) } as unknown as PayPalAuthService;
+  return { authService, post };
+}
+
+describe('import_payouts_csv', () => {
+  const csv = [
+    'Receiver,Amount,Currency,Note,Recipient_Type',
+    'alice@example.com,10.50,usd,"Thanks, Alice",email',
+    'bob@example.com,4.25,USD,,',
+    'carol@example.com,1000,EUR,"Says ""hi""",',
+  ].join('\n');
+  
+  it('previews valid rows with totals per currency without submitting', async () => {
+    const { authService, post } = createAuthService();
+    
+    const result = await importPayoutsCsv.handler({ csv, sender_batch_id: 'batch-1' }, authService);
+    
+    expect(post).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      total_rows: 3,
+      valid_items: 3,
+      totals: { USD: '14.75', EUR: '1000.00' },
+      batches: [{ sender_batch_id: 'batch-1', item_count: 3 }],
+      errors: [],
+      submitted: false,
+    });
+  });
+  
+  it('reports row errors with spreadsheet row numbers', async () => {
+    const { authService } = createAuthService();
+    const invalid = [
+      'receiver,amount,currency',
+      'alice@example.com,10.00,USD',
+      ',abc,USD',
+      'bob@example.com,5.00,',
+    ].join('\n');
+    
+    const result = await importPayoutsCsv.handler({ csv: invalid, sender_batch_id: 'batch-1', confirm: true }, authService);
+    
+    expect(result.submitted).toBe(false);
+    expect(result.valid_items).toBe(1);
+    expect(result.errors.map((error: any) => error.row)).toEqual([3, 4]);
+    expect(result.errors[0].errors).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^receiver: /),
+      expect.stringMatching(/^amount\.value: /),
+    ]));
+    expect(result.errors[1].errors).toEqual([expect.stringMatching(/^amount\.currency_code: /)]);
+  });
+  
+  it('totals zero-decimal currencies in whole units', async () => {
+    const { authService } = createAuthService();
+    
+    const result = await importPayoutsCsv.handler({
+      csv: 'receiver,amount,currency\na@example.com,1000,JPY\nb@example.com,250,JPY\nc@example.com,0.10,USD',
+      sender_batch_id: 'batch-1',
+    }, authService);
+    
+    expect(result.totals).toEqual({ JPY: '1250', USD: '0.10' });
+  });
+  
+  it('rejects a CSV without the required columns', async () => {
+    const { authService } = createAuthService();
+    
+    await expect(importPayoutsCsv.handler({ csv: 'receiver,value\na@example.com,1.00', sender_batch_id: 'batch-1' }, authService))
+      .rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('amount, currency'),
+      });
+    await expect(importPayoutsCsv.handler({ csv: 'receiver,value', sender_batch_id: 'batch-1' }, authService))
+      .rejects.toBeInstanceOf(McpError);
+  });
+  
+  it('does not submit a CSV without payout rows', async () => {
+    const { authService, post } = createAuthService();
+    
+    const result = await importPayoutsCsv.handler({ csv: 'receiver,amount,currency\n\n', sender_batch_id: 'batch-1', confirm: true }, authService);
+    
+    expect(post).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ valid_items: 0, submitted: false, message: 'The CSV contains no payout rows' });
+  });
+  
+  it('submits the parsed items in the Payouts API shape when confirmed', async () => {
+    const { authService, post } = createAuthService();
+    
+    const result = await importPayoutsCsv.handler({
+      csv,
+      sender_batch_id: 'batch-1',
+      email_subject: 'You have a payout',
+      confirm: true,
+      idempotency_key: 'key-1',
+    }, authService);
+    
+    expect(post).toHaveBeenCalledTimes(1);
+    const [url, body, options] = post.mock.calls[0] as any[];
+    expect(url).toBe('/v1/payments/payouts');
+    expect(options).toEqual({ headers: { 'PayPal-Request-Id': 'key-1' } });
+    expect(body.sender_batch_header).toEqual({ sender_batch_id: 'batch-1', email_subject: 'You have a payout' });
+    expect(body.items).toEqual([
+      { receiver: 'alice@example.com', amount: { value: '10.50', currency: 'USD' }, note: 'Thanks, Alice', recipient_type: 'EMAIL' },
+      { receiver: 'bob@example.com', amount: { value: '4.25', currency: 'USD' } },
+      { receiver: 'carol@example.com', amount: { value: '1000', currency: 'EUR' }, note: 'Says "hi"' },
+    ]);
+    expect(result).toMatchObject({
+      submitted: true,
+      payout_batches: [{ sender_batch_id: 'batch-1', payout_batch_id: 'PB-batch-1', batch_status: 'PENDING' }],
+    });
+  });
+  
+  it('splits large imports into batches with their own IDs and request IDs', async () => {
+    const { authService, post } = createAuthService();
+    const rows = Array.from({ length: 15001 }, (_row, index) => `user${index}@example.com,1.00,USD`);
+    
+    const result = await importPayoutsCsv.handler({
+      csv: ['receiver,amount,currency', ...rows].join('\n'),
+      sender_batch_id: 'batch-1',
+      confirm: true,
+      idempotency_key: 'key-1',
+    }, authService);
+    
+    expect(result.totals).toEqual({ USD: '15001.00' });
+    expect(result.batches).toEqual([
+      { sender_batch_id: 'batch-1-1', item_count: 15000 },
+      { sender_batch_id: 'batch-1-2', item_count: 1 },
+    ]);
+    expect(post.mock.calls.map(call => (call as any[])[2].headers['PayPal-Request-Id'])).toEqual(['key-1-1', 'key-1-2']);
+    expect(result.payout_batches.map((batch: any) => batch.payout_batch_id)).toEqual(['PB-batch-1-1', 'PB-batch-1-2']);
+  });
+});
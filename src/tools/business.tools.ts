@@ -4,8 +4,14 @@
  * Implements business-related tools for the MCP server.
  */
 
+import { AxiosInstance } from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { PayPalAuthService } from '../services/auth.service.js';
+import { businessSchemas } from '../schemas/business.schemas.js';
 import { logger } from '../utils/logger.js';
+import { toPayPalError } from '../utils/errors.js';
+import { parseCsv } from '../utils/csv.js';
+import { formatMinorUnits, toMinorUnits } from '../utils/amount.js';
 
 /**
  * Tool definition interface
@@ -15,6 +21,30 @@ interface Tool {
   description: string;
   inputSchema: Record<string, any>;
   handler: (args: any, authService: PayPalAuthService) => Promise<any>;
+  idempotent?: boolean;
+  repeatable?: boolean; // Identical calls are deliberate repeats, so no key is derived from the arguments
+  prepareInput?: (args: any, authService: PayPalAuthService) => Promise<any>;
+}
+
+/**
+ * Deep merge plain objects, with values from the override taking precedence.
+ * Arrays are replaced rather than merged.
+ */
+function deepMerge(base: any, override: any): any {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+  
+  const result: Record<string, any> = { ...base };
+  for (const key of Object.keys(override)) {
+    result[key] = deepMerge(base[key], override[key]);
+  }
+  
+  return result;
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
 /**
@@ -37,17 +67,21 @@ const createProduct: Tool = {
     },
     required: ['name', 'type'],
   },
+  idempotent: true,
   handler: async (args, authService) => {
     logger.info('Creating product');
     
     const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post('/v1/catalogs/products', args);
+      const response = await axios.post('/v1/catalogs/products', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
       logger.error('Failed to create product:', error);
-      throw new Error('Failed to create product');
+      throw toPayPalError(error, 'Failed to create product');
     }
   },
 };
@@ -55,14 +89,17 @@ const createProduct: Tool = {
 /**
  * Create Invoice Tool
  * 
- * Generates a new invoice in PayPal.
+ * Generates a new invoice in PayPal. When a template_id is given, the template's
+ * content is used as the base and the remaining arguments are applied on top
+ * before the invoice is validated.
  */
 const createInvoice: Tool = {
   name: 'create_invoice',
-  description: 'Generate a new invoice',
+  description: 'Generate a new invoice, optionally starting from an invoice template. detail (with currency_code) is required unless template_id is given',
   inputSchema: {
     type: 'object',
     properties: {
+      template_id: { type: 'string' },
       detail: {
         type: 'object',
         properties: {
@@ -98,138 +135,1385 @@ const createInvoice: Tool = {
         },
       },
     },
-    required: ['detail'],
   },
+  prepareInput: async (args, authService) => {
+    if (!args || !args.template_id) {
+      return args;
+    }
+    
+    logger.info(`Applying invoice template: ${args.template_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { template_id, ...overrides } = args;
+    
+    try {
+      const response = await axios.get(`/v2/invoicing/templates/${template_id}`);
+      return deepMerge(response.data.template_info || {}, overrides);
+    } catch (error) {
+      logger.error(`Failed to get invoice template ${template_id}:`, error);
+      throw toPayPalError(error, `Failed to get invoice template ${template_id}`);
+    }
+  },
+  idempotent: true,
   handler: async (args, authService) => {
     logger.info('Creating invoice');
     
     const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post('/v2/invoicing/invoices', args);
+      const response = await axios.post('/v2/invoicing/invoices', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
       logger.error('Failed to create invoice:', error);
-      throw new Error('Failed to create invoice');
+      throw toPayPalError(error, 'Failed to create invoice');
     }
   },
 };
 
 /**
- * Create Payout Tool
+ * Send Invoice Tool
  * 
- * Process a batch payout to multiple recipients.
+ * Sends a draft invoice to its recipients.
  */
-const createPayout: Tool = {
-  name: 'create_payout',
-  description: 'Process a batch payout',
+const sendInvoice: Tool = {
+  name: 'send_invoice',
+  description: 'Send a draft invoice to its recipients',
   inputSchema: {
     type: 'object',
     properties: {
-      sender_batch_header: {
+      invoice_id: { type: 'string' },
+      subject: { type: 'string' },
+      note: { type: 'string' },
+      send_to_invoicer: { type: 'boolean' },
+      send_to_recipient: { type: 'boolean' },
+      additional_recipients: { type: 'array', items: { type: 'string', format: 'email' } },
+    },
+    required: ['invoice_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Sending invoice: ${args.invoice_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { invoice_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v2/invoicing/invoices/${invoice_id}/send`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data || { success: true, invoice_id };
+    } catch (error) {
+      logger.error(`Failed to send invoice ${invoice_id}:`, error);
+      throw toPayPalError(error, `Failed to send invoice ${invoice_id}`);
+    }
+  },
+};
+
+/**
+ * Remind Invoice Tool
+ * 
+ * Sends a payment reminder for an unpaid invoice.
+ */
+const remindInvoice: Tool = {
+  name: 'remind_invoice',
+  description: 'Send a payment reminder for an invoice',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      invoice_id: { type: 'string' },
+      subject: { type: 'string' },
+      note: { type: 'string' },
+      send_to_invoicer: { type: 'boolean' },
+      send_to_recipient: { type: 'boolean' },
+      additional_recipients: { type: 'array', items: { type: 'string', format: 'email' } },
+    },
+    required: ['invoice_id'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    logger.info(`Sending reminder for invoice: ${args.invoice_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { invoice_id, idempotency_key, ...payload } = args;
+    
+    try {
+      await axios.post(`/v2/invoicing/invoices/${invoice_id}/remind`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { success: true, invoice_id };
+    } catch (error) {
+      logger.error(`Failed to send reminder for invoice ${invoice_id}:`, error);
+      throw toPayPalError(error, `Failed to send reminder for invoice ${invoice_id}`);
+    }
+  },
+};
+
+/**
+ * Cancel Invoice Tool
+ * 
+ * Cancels a sent invoice and optionally notifies its recipients.
+ */
+const cancelInvoice: Tool = {
+  name: 'cancel_invoice',
+  description: 'Cancel a sent invoice',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      invoice_id: { type: 'string' },
+      subject: { type: 'string' },
+      note: { type: 'string' },
+      send_to_invoicer: { type: 'boolean' },
+      send_to_recipient: { type: 'boolean' },
+      additional_recipients: { type: 'array', items: { type: 'string', format: 'email' } },
+    },
+    required: ['invoice_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Cancelling invoice: ${args.invoice_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { invoice_id, idempotency_key, ...payload } = args;
+    
+    try {
+      await axios.post(`/v2/invoicing/invoices/${invoice_id}/cancel`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { success: true, invoice_id };
+    } catch (error) {
+      logger.error(`Failed to cancel invoice ${invoice_id}:`, error);
+      throw toPayPalError(error, `Failed to cancel invoice ${invoice_id}`);
+    }
+  },
+};
+
+/**
+ * Record Invoice Payment Tool
+ * 
+ * Records a payment for an invoice that was received outside of PayPal.
+ */
+const recordInvoicePayment: Tool = {
+  name: 'record_invoice_payment',
+  description: 'Record an external payment for an invoice',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      invoice_id: { type: 'string' },
+      method: { type: 'string', enum: ['BANK_TRANSFER', 'CASH', 'CHECK', 'CREDIT_CARD', 'DEBIT_CARD', 'PAYPAL', 'WIRE_TRANSFER', 'OTHER'] },
+      payment_date: { type: 'string', format: 'date' },
+      amount: {
         type: 'object',
         properties: {
-          sender_batch_id: { type: 'string' },
-          email_subject: { type: 'string' },
-          email_message: { type: 'string' },
+          currency_code: { type: 'string' },
+          value: { type: 'string' },
         },
-        required: ['sender_batch_id'],
+        required: ['currency_code', 'value'],
       },
-      items: {
-        type: 'array',
-        items: {
-          type: 'object',
-          properties: {
-            recipient_type: { type: 'string' },
-            amount: {
-              type: 'object',
-              properties: {
-                value: { type: 'string' },
-                currency: { type: 'string' },
-              },
-              required: ['value', 'currency'],
+      note: { type: 'string' },
+      payment_id: { type: 'string' },
+    },
+    required: ['invoice_id', 'method'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Recording payment for invoice: ${args.invoice_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { invoice_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v2/invoicing/invoices/${invoice_id}/payments`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { invoice_id, ...response.data };
+    } catch (error) {
+      logger.error(`Failed to record payment for invoice ${invoice_id}:`, error);
+      throw toPayPalError(error, `Failed to record payment for invoice ${invoice_id}`);
+    }
+  },
+};
+
+/**
+ * Delete Invoice Payment Tool
+ * 
+ * Deletes an external payment previously recorded against an invoice.
+ */
+const deleteInvoicePayment: Tool = {
+  name: 'delete_invoice_payment',
+  description: 'Delete an external payment recorded for an invoice',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      invoice_id: { type: 'string' },
+      transaction_id: { type: 'string' },
+    },
+    required: ['invoice_id', 'transaction_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Deleting payment ${args.transaction_id} for invoice: ${args.invoice_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { invoice_id, transaction_id } = args;
+    
+    try {
+      await axios.delete(`/v2/invoicing/invoices/${invoice_id}/payments/${transaction_id}`);
+      return { success: true, invoice_id, transaction_id };
+    } catch (error) {
+      logger.error(`Failed to delete payment ${transaction_id} for invoice ${invoice_id}:`, error);
+      throw toPayPalError(error, `Failed to delete payment ${transaction_id} for invoice ${invoice_id}`);
+    }
+  },
+};
+
+/**
+ * Record Invoice Refund Tool
+ * 
+ * Records a refund for an invoice that was made outside of PayPal.
+ */
+const recordInvoiceRefund: Tool = {
+  name: 'record_invoice_refund',
+  description: 'Record an external refund for an invoice',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      invoice_id: { type: 'string' },
+      method: { type: 'string', enum: ['BANK_TRANSFER', 'CASH', 'CHECK', 'CREDIT_CARD', 'DEBIT_CARD', 'PAYPAL', 'WIRE_TRANSFER', 'OTHER'] },
+      refund_date: { type: 'string', format: 'date' },
+      amount: {
+        type: 'object',
+        properties: {
+          currency_code: { type: 'string' },
+          value: { type: 'string' },
+        },
+        required: ['currency_code', 'value'],
+      },
+    },
+    required: ['invoice_id', 'method'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Recording refund for invoice: ${args.invoice_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { invoice_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v2/invoicing/invoices/${invoice_id}/refunds`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { invoice_id, ...response.data };
+    } catch (error) {
+      logger.error(`Failed to record refund for invoice ${invoice_id}:`, error);
+      throw toPayPalError(error, `Failed to record refund for invoice ${invoice_id}`);
+    }
+  },
+};
+
+/**
+ * Generate Invoice Number Tool
+ * 
+ * Generates the next invoice number in the merchant's sequence.
+ */
+const generateInvoiceNumber: Tool = {
+  name: 'generate_invoice_number',
+  description: 'Generate the next invoice number',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false,
+  },
+  handler: async (_args, authService) => {
+    logger.info('Generating next invoice number');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.post('/v2/invoicing/generate-next-invoice-number');
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to generate invoice number:', error);
+      throw toPayPalError(error, 'Failed to generate invoice number');
+    }
+  },
+};
+
+/**
+ * Summarize an invoice for list and search results
+ */
+function summarizeInvoice(invoice: any): Record<string, any> {
+  return {
+    id: invoice.id,
+    invoice_number: invoice.detail?.invoice_number,
+    status: invoice.status,
+    invoice_date: invoice.detail?.invoice_date,
+    due_date: invoice.detail?.payment_term?.due_date,
+    recipient_email: invoice.primary_recipients?.[0]?.billing_info?.email_address,
+    total: invoice.amount,
+    due_amount: invoice.due_amount,
+  };
+}
+
+/**
+ * Run an invoice search and return a compact page of results
+ */
+async function runInvoiceSearch(axios: AxiosInstance, args: any): Promise<any> {
+  const { page, page_size, total_required, ...filters } = args;
+  
+  const response = await axios.post('/v2/invoicing/search-invoices', filters, {
+    params: { page, page_size, total_required },
+  });
+  
+  return {
+    total_items: response.data.total_items,
+    total_pages: response.data.total_pages,
+    page: page || 1,
+    invoices: (response.data.items || []).map(summarizeInvoice),
+  };
+}
+
+/**
+ * List Invoices Tool
+ * 
+ * Lists invoices, optionally filtered by status.
+ */
+const listInvoices: Tool = {
+  name: 'list_invoices',
+  description: 'List invoices with a compact summary of each, optionally filtered by status',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: { type: 'array', items: { type: 'string', enum: ['DRAFT', 'SENT', 'SCHEDULED', 'PAID', 'MARKED_AS_PAID', 'CANCELLED', 'REFUNDED', 'PARTIALLY_PAID', 'PARTIALLY_REFUNDED', 'MARKED_AS_REFUNDED', 'UNPAID', 'PAYMENT_PENDING'] } },
+      page: { type: 'number' },
+      page_size: { type: 'number' },
+      total_required: { type: 'boolean' },
+    },
+  },
+  handler: async (args, authService) => {
+    logger.info('Listing invoices');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      return await runInvoiceSearch(axios, args);
+    } catch (error) {
+      logger.error('Failed to list invoices:', error);
+      throw toPayPalError(error, 'Failed to list invoices');
+    }
+  },
+};
+
+/**
+ * Search Invoices Tool
+ * 
+ * Searches invoices by status, recipient, date, amount and currency.
+ */
+const searchInvoices: Tool = {
+  name: 'search_invoices',
+  description: 'Search invoices by status, recipient, date range, amount range and currency',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: { type: 'array', items: { type: 'string', enum: ['DRAFT', 'SENT', 'SCHEDULED', 'PAID', 'MARKED_AS_PAID', 'CANCELLED', 'REFUNDED', 'PARTIALLY_PAID', 'PARTIALLY_REFUNDED', 'MARKED_AS_REFUNDED', 'UNPAID', 'PAYMENT_PENDING'] } },
+      recipient_email: { type: 'string', format: 'email' },
+      invoice_number: { type: 'string' },
+      invoice_date_range: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', format: 'date' },
+          end: { type: 'string', format: 'date' },
+        },
+        required: ['start', 'end'],
+      },
+      due_date_range: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', format: 'date' },
+          end: { type: 'string', format: 'date' },
+        },
+        required: ['start', 'end'],
+      },
+      total_amount_range: {
+        type: 'object',
+        properties: {
+          lower_amount: {
+            type: 'object',
+            properties: {
+              currency_code: { type: 'string' },
+              value: { type: 'string' },
             },
-            note: { type: 'string' },
-            receiver: { type: 'string' },
-            sender_item_id: { type: 'string' },
+            required: ['currency_code', 'value'],
+          },
+          upper_amount: {
+            type: 'object',
+            properties: {
+              currency_code: { type: 'string' },
+              value: { type: 'string' },
+            },
+            required: ['currency_code', 'value'],
           },
-          required: ['amount', 'receiver'],
         },
+        required: ['lower_amount', 'upper_amount'],
       },
+      currency_code: { type: 'string' },
+      page: { type: 'number' },
+      page_size: { type: 'number' },
+      total_required: { type: 'boolean' },
     },
-    required: ['sender_batch_header', 'items'],
   },
   handler: async (args, authService) => {
-    logger.info('Creating payout');
+    logger.info('Searching invoices');
     
     const axios = authService.getAxiosInstance();
     
     try {
-      const response = await axios.post('/v1/payments/payouts', args);
-      return response.data;
+      return await runInvoiceSearch(axios, args);
     } catch (error) {
-      logger.error('Failed to create payout:', error);
-      throw new Error('Failed to create payout');
+      logger.error('Failed to search invoices:', error);
+      throw toPayPalError(error, 'Failed to search invoices');
     }
   },
 };
 
 /**
- * Get Product Tool
+ * Create Invoice Template Tool
  * 
- * Retrieves a product from the PayPal catalog.
+ * Creates a reusable invoice template.
  */
-const getProduct: Tool = {
-  name: 'get_product',
-  description: 'Get a product from the catalog',
+const createInvoiceTemplate: Tool = {
+  name: 'create_invoice_template',
+  description: 'Create a reusable invoice template',
   inputSchema: {
     type: 'object',
     properties: {
-      product_id: { type: 'string' },
+      name: { type: 'string' },
+      default_template: { type: 'boolean' },
+      template_info: { type: 'object' },
+      settings: { type: 'object' },
+      unit_of_measure: { type: 'string', enum: ['QUANTITY', 'HOURS', 'AMOUNT'] },
     },
-    required: ['product_id'],
+    required: ['name'],
   },
+  idempotent: true,
   handler: async (args, authService) => {
-    logger.info(`Getting product: ${args.product_id}`);
+    logger.info('Creating invoice template');
     
     const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.get(`/v1/catalogs/products/${args.product_id}`);
+      const response = await axios.post('/v2/invoicing/templates', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
-      logger.error(`Failed to get product ${args.product_id}:`, error);
-      throw new Error(`Failed to get product ${args.product_id}`);
+      logger.error('Failed to create invoice template:', error);
+      throw toPayPalError(error, 'Failed to create invoice template');
     }
   },
 };
 
 /**
- * Get Invoice Tool
+ * List Invoice Templates Tool
  * 
- * Retrieves an invoice from PayPal.
+ * Lists the merchant's invoice templates.
  */
-const getInvoice: Tool = {
-  name: 'get_invoice',
-  description: 'Get an invoice',
+const listInvoiceTemplates: Tool = {
+  name: 'list_invoice_templates',
+  description: 'List invoice templates',
   inputSchema: {
     type: 'object',
     properties: {
-      invoice_id: { type: 'string' },
+      fields: { type: 'string', enum: ['all', 'none'] },
+      page: { type: 'number' },
+      page_size: { type: 'number' },
     },
-    required: ['invoice_id'],
   },
   handler: async (args, authService) => {
-    logger.info(`Getting invoice: ${args.invoice_id}`);
+    logger.info('Listing invoice templates');
     
     const axios = authService.getAxiosInstance();
     
     try {
-      const response = await axios.get(`/v2/invoicing/invoices/${args.invoice_id}`);
+      const response = await axios.get('/v2/invoicing/templates', { params: args });
       return response.data;
     } catch (error) {
-      logger.error(`Failed to get invoice ${args.invoice_id}:`, error);
-      throw new Error(`Failed to get invoice ${args.invoice_id}`);
+      logger.error('Failed to list invoice templates:', error);
+      throw toPayPalError(error, 'Failed to list invoice templates');
+    }
+  },
+};
+
+/**
+ * Get Invoice Template Tool
+ * 
+ * Retrieves an invoice template.
+ */
+const getInvoiceTemplate: Tool = {
+  name: 'get_invoice_template',
+  description: 'Get an invoice template',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      template_id: { type: 'string' },
+    },
+    required: ['template_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting invoice template: ${args.template_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v2/invoicing/templates/${args.template_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get invoice template ${args.template_id}:`, error);
+      throw toPayPalError(error, `Failed to get invoice template ${args.template_id}`);
+    }
+  },
+};
+
+/**
+ * Update Invoice Template Tool
+ * 
+ * Replaces the content of an invoice template.
+ */
+const updateInvoiceTemplate: Tool = {
+  name: 'update_invoice_template',
+  description: 'Update an invoice template',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      template_id: { type: 'string' },
+      name: { type: 'string' },
+      default_template: { type: 'boolean' },
+      template_info: { type: 'object' },
+      settings: { type: 'object' },
+      unit_of_measure: { type: 'string', enum: ['QUANTITY', 'HOURS', 'AMOUNT'] },
+    },
+    required: ['template_id', 'name'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Updating invoice template: ${args.template_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { template_id, ...payload } = args;
+    
+    try {
+      const response = await axios.put(`/v2/invoicing/templates/${template_id}`, payload);
+      return response.data || { success: true, template_id };
+    } catch (error) {
+      logger.error(`Failed to update invoice template ${template_id}:`, error);
+      throw toPayPalError(error, `Failed to update invoice template ${template_id}`);
+    }
+  },
+};
+
+/**
+ * Delete Invoice Template Tool
+ * 
+ * Deletes an invoice template.
+ */
+const deleteInvoiceTemplate: Tool = {
+  name: 'delete_invoice_template',
+  description: 'Delete an invoice template',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      template_id: { type: 'string' },
+    },
+    required: ['template_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Deleting invoice template: ${args.template_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      await axios.delete(`/v2/invoicing/templates/${args.template_id}`);
+      return { success: true, template_id: args.template_id };
+    } catch (error) {
+      logger.error(`Failed to delete invoice template ${args.template_id}:`, error);
+      throw toPayPalError(error, `Failed to delete invoice template ${args.template_id}`);
+    }
+  },
+};
+
+/**
+ * Create Payout Tool
+ * 
+ * Process a batch payout to multiple recipients.
+ */
+const createPayout: Tool = {
+  name: 'create_payout',
+  description: 'Process a batch payout',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sender_batch_header: {
+        type: 'object',
+        properties: {
+          sender_batch_id: { type: 'string' },
+          email_subject: { type: 'string' },
+          email_message: { type: 'string' },
+        },
+        required: ['sender_batch_id'],
+      },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            recipient_type: { type: 'string' },
+            amount: {
+              type: 'object',
+              properties: {
+                value: { type: 'string' },
+                currency: { type: 'string' },
+              },
+              required: ['value', 'currency'],
+            },
+            note: { type: 'string' },
+            receiver: { type: 'string' },
+            sender_item_id: { type: 'string' },
+          },
+          required: ['amount', 'receiver'],
+        },
+      },
+    },
+    required: ['sender_batch_header', 'items'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info('Creating payout');
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post('/v1/payments/payouts', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to create payout:', error);
+      throw toPayPalError(error, 'Failed to create payout');
+    }
+  },
+};
+
+/**
+ * Maximum number of items PayPal accepts in a single payout batch
+ */
+const PAYOUT_BATCH_ITEM_LIMIT = 15000;
+
+/**
+ * Convert a validated payout item to the shape expected by the Payouts API,
+ * which names the currency field `currency` rather than `currency_code`
+ */
+function toPayoutRequestItem(item: any): Record<string, any> {
+  const { amount, ...rest } = item;
+  return {
+    ...rest,
+    amount: {
+      value: amount.value,
+      currency: amount.currency_code,
+    },
+  };
+}
+
+/**
+ * Import Payouts CSV Tool
+ * 
+ * Validates payout rows from CSV text and previews them. The payouts are only
+ * submitted when called again with confirm set to true and no row errors.
+ */
+const importPayoutsCsv: Tool = {
+  name: 'import_payouts_csv',
+  description: 'Validate and preview payouts from CSV text (receiver, amount, currency, note, recipient_type columns), then submit them with confirm: true',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      csv: { type: 'string' },
+      sender_batch_id: { type: 'string' },
+      email_subject: { type: 'string' },
+      email_message: { type: 'string' },
+      confirm: { type: 'boolean' },
+    },
+    required: ['csv', 'sender_batch_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Importing payouts from CSV: ${args.sender_batch_id}`);
+    
+    const [header = [], ...rows] = parseCsv(args.csv);
+    const columns = header.map(column => column.trim().toLowerCase());
+    
+    const missingColumns = ['receiver', 'amount', 'currency'].filter(column => !columns.includes(column));
+    if (missingColumns.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `CSV is missing required columns: ${missingColumns.join(', ')}`);
+    }
+    
+    const itemSchema = businessSchemas.createPayoutSchema.shape.items.element;
+    const items: any[] = [];
+    const errors: { row: number; errors: string[] }[] = [];
+    const totals: Record<string, number> = {};
+    
+    rows.forEach((row, index) => {
+      // Row numbers match the spreadsheet, where the header is row 1
+      const rowNumber = index + 2;
+      const value = (column: string) => {
+        const field = row[columns.indexOf(column)];
+        return field === undefined || field.trim() === '' ? undefined : field.trim();
+      };
+      
+      const result = itemSchema.safeParse({
+        receiver: value('receiver'),
+        amount: {
+          value: value('amount'),
+          currency_code: value('currency')?.toUpperCase(),
+        },
+        note: value('note'),
+        recipient_type: value('recipient_type')?.toUpperCase(),
+        sender_item_id: value('sender_item_id'),
+      });
+      
+      if (!result.success) {
+        errors.push({
+          row: rowNumber,
+          errors: result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`),
+        });
+        return;
+      }
+      
+      items.push(result.data);
+      const currency = result.data.amount.currency_code;
+      totals[currency] = (totals[currency] || 0) + toMinorUnits(result.data.amount.value, currency);
+    });
+    
+    const batches: any[][] = [];
+    for (let i = 0; i < items.length; i += PAYOUT_BATCH_ITEM_LIMIT) {
+      batches.push(items.slice(i, i + PAYOUT_BATCH_ITEM_LIMIT));
+    }
+    
+    const batchIds = batches.map((_batch, index) =>
+      batches.length === 1 ? args.sender_batch_id : `${args.sender_batch_id}-${index + 1}`
+    );
+    
+    const preview = {
+      total_rows: rows.length,
+      valid_items: items.length,
+      totals: Object.fromEntries(
+        Object.entries(totals).map(([currency, total]) => [currency, formatMinorUnits(total, currency)])
+      ),
+      batches: batches.map((batch, index) => ({
+        sender_batch_id: batchIds[index],
+        item_count: batch.length,
+      })),
+      errors,
+    };
+    
+    if (errors.length > 0 || items.length === 0) {
+      return {
+        ...preview,
+        submitted: false,
+        message: errors.length > 0
+          ? 'Fix the row errors and import the CSV again'
+          : 'The CSV contains no payout rows',
+      };
+    }
+    
+    if (!args.confirm) {
+      return {
+        ...preview,
+        submitted: false,
+        message: 'Review the preview and call again with confirm: true to submit the payouts',
+      };
+    }
+    
+    const axios = authService.getAxiosInstance();
+    const submitted: any[] = [];
+    
+    for (let i = 0; i < batches.length; i++) {
+      const payout = businessSchemas.createPayoutSchema.parse({
+        sender_batch_header: {
+          sender_batch_id: batchIds[i],
+          email_subject: args.email_subject,
+          email_message: args.email_message,
+        },
+        items: batches[i],
+      });
+      
+      try {
+        const response = await axios.post('/v1/payments/payouts', {
+          ...payout,
+          items: payout.items.map(toPayoutRequestItem),
+        }, {
+          headers: {
+            'PayPal-Request-Id': batches.length === 1 ? args.idempotency_key : `${args.idempotency_key}-${i + 1}`,
+          },
+        });
+        submitted.push({
+          sender_batch_id: batchIds[i],
+          payout_batch_id: response.data.batch_header?.payout_batch_id,
+          batch_status: response.data.batch_header?.batch_status,
+        });
+      } catch (error) {
+        logger.error(`Failed to submit payout batch ${batchIds[i]}:`, error);
+        throw toPayPalError(
+          error,
+          `Failed to submit payout batch ${batchIds[i]} (${submitted.length} of ${batches.length} batches submitted: ${submitted.map(batch => batch.payout_batch_id).join(', ') || 'none'})`
+        );
+      }
+    }
+    
+    return {
+      ...preview,
+      submitted: true,
+      payout_batches: submitted,
+    };
+  },
+};
+
+/**
+ * Get Payout Batch Tool
+ * 
+ * Retrieves the status of a payout batch and a page of its items.
+ */
+const getPayoutBatch: Tool = {
+  name: 'get_payout_batch',
+  description: 'Get the status of a payout batch and its items',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      payout_batch_id: { type: 'string' },
+      page: { type: 'number' },
+      page_size: { type: 'number' },
+      total_required: { type: 'boolean' },
+    },
+    required: ['payout_batch_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting payout batch: ${args.payout_batch_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { payout_batch_id, ...params } = args;
+    
+    try {
+      const response = await axios.get(`/v1/payments/payouts/${payout_batch_id}`, { params });
+      const items = (response.data.items || []).map((item: any) => ({
+        payout_item_id: item.payout_item_id,
+        transaction_id: item.transaction_id,
+        transaction_status: item.transaction_status,
+        receiver: item.payout_item?.receiver,
+        amount: item.payout_item?.amount,
+        sender_item_id: item.payout_item?.sender_item_id,
+        errors: item.errors,
+      }));
+      
+      // Count items per transaction status so unfinished items stand out
+      const status_counts: Record<string, number> = {};
+      for (const item of items) {
+        status_counts[item.transaction_status] = (status_counts[item.transaction_status] || 0) + 1;
+      }
+      
+      return {
+        batch_header: response.data.batch_header,
+        status_counts,
+        items,
+        total_items: response.data.total_items,
+        total_pages: response.data.total_pages,
+        links: response.data.links,
+      };
+    } catch (error) {
+      logger.error(`Failed to get payout batch ${payout_batch_id}:`, error);
+      throw toPayPalError(error, `Failed to get payout batch ${payout_batch_id}`);
+    }
+  },
+};
+
+/**
+ * Get Payout Item Tool
+ * 
+ * Retrieves the details and status of a single payout item.
+ */
+const getPayoutItem: Tool = {
+  name: 'get_payout_item',
+  description: 'Get the details and status of a payout item',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      payout_item_id: { type: 'string' },
+    },
+    required: ['payout_item_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting payout item: ${args.payout_item_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/payments/payouts-item/${args.payout_item_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get payout item ${args.payout_item_id}:`, error);
+      throw toPayPalError(error, `Failed to get payout item ${args.payout_item_id}`);
+    }
+  },
+};
+
+/**
+ * Cancel Unclaimed Payout Item Tool
+ * 
+ * Cancels a payout item that is still UNCLAIMED and returns the funds to the sender.
+ */
+const cancelUnclaimedPayoutItem: Tool = {
+  name: 'cancel_unclaimed_payout_item',
+  description: 'Cancel an unclaimed payout item and return the funds',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      payout_item_id: { type: 'string' },
+    },
+    required: ['payout_item_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Cancelling unclaimed payout item: ${args.payout_item_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.post(`/v1/payments/payouts-item/${args.payout_item_id}/cancel`, {}, {
+        headers: { 'PayPal-Request-Id': args.idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to cancel payout item ${args.payout_item_id}:`, error);
+      throw toPayPalError(error, `Failed to cancel payout item ${args.payout_item_id}`);
+    }
+  },
+};
+
+/**
+ * Get Product Tool
+ * 
+ * Retrieves a product from the PayPal catalog.
+ */
+const getProduct: Tool = {
+  name: 'get_product',
+  description: 'Get a product from the catalog',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      product_id: { type: 'string' },
+    },
+    required: ['product_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting product: ${args.product_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/catalogs/products/${args.product_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get product ${args.product_id}:`, error);
+      throw toPayPalError(error, `Failed to get product ${args.product_id}`);
+    }
+  },
+};
+
+/**
+ * List Products Tool
+ * 
+ * Lists products in the PayPal catalog.
+ */
+const listProducts: Tool = {
+  name: 'list_products',
+  description: 'List products in the catalog',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      page: { type: 'number' },
+      page_size: { type: 'number' },
+      total_required: { type: 'boolean' },
+    },
+  },
+  handler: async (args, authService) => {
+    logger.info('Listing products');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v1/catalogs/products', { params: args });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to list products:', error);
+      throw toPayPalError(error, 'Failed to list products');
+    }
+  },
+};
+
+/**
+ * Update Product Tool
+ * 
+ * Updates a catalog product using JSON Patch operations.
+ */
+const updateProduct: Tool = {
+  name: 'update_product',
+  description: 'Update the description, category, image_url or home_url of a product using JSON Patch operations',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      product_id: { type: 'string' },
+      operations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            op: { type: 'string', enum: ['add', 'replace', 'remove'] },
+            path: { type: 'string', enum: ['/description', '/category', '/image_url', '/home_url'] },
+            value: { type: 'string' },
+          },
+          required: ['op', 'path'],
+        },
+      },
+    },
+    required: ['product_id', 'operations'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Updating product: ${args.product_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { product_id, operations } = args;
+    
+    try {
+      await axios.patch(`/v1/catalogs/products/${product_id}`, operations);
+      return { success: true, product_id };
+    } catch (error) {
+      logger.error(`Failed to update product ${product_id}:`, error);
+      throw toPayPalError(error, `Failed to update product ${product_id}`);
+    }
+  },
+};
+
+/**
+ * Get Invoice Tool
+ * 
+ * Retrieves an invoice from PayPal.
+ */
+const getInvoice: Tool = {
+  name: 'get_invoice',
+  description: 'Get an invoice',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      invoice_id: { type: 'string' },
+    },
+    required: ['invoice_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting invoice: ${args.invoice_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v2/invoicing/invoices/${args.invoice_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get invoice ${args.invoice_id}:`, error);
+      throw toPayPalError(error, `Failed to get invoice ${args.invoice_id}`);
+    }
+  },
+};
+
+/**
+ * Create Plan Tool
+ * 
+ * Creates a billing plan for a catalog product.
+ */
+const createPlan: Tool = {
+  name: 'create_plan',
+  description: 'Create a subscription billing plan for a catalog product',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      product_id: { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      status: { type: 'string', enum: ['CREATED', 'ACTIVE', 'INACTIVE'] },
+      billing_cycles: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            frequency: {
+              type: 'object',
+              properties: {
+                interval_unit: { type: 'string', enum: ['DAY', 'WEEK', 'MONTH', 'YEAR'] },
+                interval_count: { type: 'number' },
+              },
+              required: ['interval_unit'],
+            },
+            tenure_type: { type: 'string', enum: ['REGULAR', 'TRIAL'] },
+            sequence: { type: 'number' },
+            total_cycles: { type: 'number' },
+            pricing_scheme: {
+              type: 'object',
+              properties: {
+                fixed_price: {
+                  type: 'object',
+                  properties: {
+                    currency_code: { type: 'string' },
+                    value: { type: 'string' },
+                  },
+                  required: ['currency_code', 'value'],
+                },
+              },
+              required: ['fixed_price'],
+            },
+          },
+          required: ['frequency', 'tenure_type', 'sequence'],
+        },
+      },
+      payment_preferences: {
+        type: 'object',
+        properties: {
+          auto_bill_outstanding: { type: 'boolean' },
+          setup_fee: {
+            type: 'object',
+            properties: {
+              currency_code: { type: 'string' },
+              value: { type: 'string' },
+            },
+            required: ['currency_code', 'value'],
+          },
+          setup_fee_failure_action: { type: 'string', enum: ['CONTINUE', 'CANCEL'] },
+          payment_failure_threshold: { type: 'number' },
+        },
+      },
+      taxes: {
+        type: 'object',
+        properties: {
+          percentage: { type: 'string' },
+          inclusive: { type: 'boolean' },
+        },
+        required: ['percentage'],
+      },
+      quantity_supported: { type: 'boolean' },
+    },
+    required: ['product_id', 'name', 'billing_cycles', 'payment_preferences'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Creating plan for product: ${args.product_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post('/v1/billing/plans', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to create plan for product ${args.product_id}:`, error);
+      throw toPayPalError(error, `Failed to create plan for product ${args.product_id}`);
+    }
+  },
+};
+
+/**
+ * List Plans Tool
+ * 
+ * Lists billing plans, optionally filtered by product.
+ */
+const listPlans: Tool = {
+  name: 'list_plans',
+  description: 'List subscription billing plans, optionally filtered by product',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      product_id: { type: 'string' },
+      plan_ids: { type: 'string' },
+      page_size: { type: 'number' },
+      page: { type: 'number' },
+      total_required: { type: 'boolean' },
+    },
+  },
+  handler: async (args, authService) => {
+    logger.info('Listing plans');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v1/billing/plans', { params: args });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to list plans:', error);
+      throw toPayPalError(error, 'Failed to list plans');
+    }
+  },
+};
+
+/**
+ * Get Plan Tool
+ * 
+ * Retrieves a billing plan.
+ */
+const getPlan: Tool = {
+  name: 'get_plan',
+  description: 'Get a subscription billing plan',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      plan_id: { type: 'string' },
+    },
+    required: ['plan_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting plan: ${args.plan_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/billing/plans/${args.plan_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get plan ${args.plan_id}:`, error);
+      throw toPayPalError(error, `Failed to get plan ${args.plan_id}`);
+    }
+  },
+};
+
+/**
+ * Update Plan Pricing Tool
+ * 
+ * Updates the pricing of one or more billing cycles of a plan.
+ */
+const updatePlanPricing: Tool = {
+  name: 'update_plan_pricing',
+  description: 'Update the pricing schemes of a subscription billing plan',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      plan_id: { type: 'string' },
+      pricing_schemes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            billing_cycle_sequence: { type: 'number' },
+            pricing_scheme: {
+              type: 'object',
+              properties: {
+                fixed_price: {
+                  type: 'object',
+                  properties: {
+                    currency_code: { type: 'string' },
+                    value: { type: 'string' },
+                  },
+                  required: ['currency_code', 'value'],
+                },
+              },
+              required: ['fixed_price'],
+            },
+          },
+          required: ['billing_cycle_sequence', 'pricing_scheme'],
+        },
+      },
+    },
+    required: ['plan_id', 'pricing_schemes'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Updating pricing for plan: ${args.plan_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { plan_id, idempotency_key, ...payload } = args;
+    
+    try {
+      await axios.post(`/v1/billing/plans/${plan_id}/update-pricing-schemes`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { success: true, plan_id };
+    } catch (error) {
+      logger.error(`Failed to update pricing for plan ${plan_id}:`, error);
+      throw toPayPalError(error, `Failed to update pricing for plan ${plan_id}`);
+    }
+  },
+};
+
+/**
+ * Activate Plan Tool
+ * 
+ * Activates a billing plan so new subscriptions can be created against it.
+ */
+const activatePlan: Tool = {
+  name: 'activate_plan',
+  description: 'Activate a subscription billing plan',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      plan_id: { type: 'string' },
+    },
+    required: ['plan_id'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    logger.info(`Activating plan: ${args.plan_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      await axios.post(`/v1/billing/plans/${args.plan_id}/activate`, {}, {
+        headers: { 'PayPal-Request-Id': args.idempotency_key },
+      });
+      return { success: true, plan_id: args.plan_id };
+    } catch (error) {
+      logger.error(`Failed to activate plan ${args.plan_id}:`, error);
+      throw toPayPalError(error, `Failed to activate plan ${args.plan_id}`);
+    }
+  },
+};
+
+/**
+ * Deactivate Plan Tool
+ * 
+ * Deactivates a billing plan so no new subscriptions can be created against it.
+ */
+const deactivatePlan: Tool = {
+  name: 'deactivate_plan',
+  description: 'Deactivate a subscription billing plan',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      plan_id: { type: 'string' },
+    },
+    required: ['plan_id'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    logger.info(`Deactivating plan: ${args.plan_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      await axios.post(`/v1/billing/plans/${args.plan_id}/deactivate`, {}, {
+        headers: { 'PayPal-Request-Id': args.idempotency_key },
+      });
+      return { success: true, plan_id: args.plan_id };
+    } catch (error) {
+      logger.error(`Failed to deactivate plan ${args.plan_id}:`, error);
+      throw toPayPalError(error, `Failed to deactivate plan ${args.plan_id}`);
     }
   },
 };
@@ -241,6 +1525,32 @@ export const businessTools: Tool[] = [
   createProduct,
   createInvoice,
   createPayout,
+  importPayoutsCsv,
+  getPayoutBatch,
+  getPayoutItem,
+  cancelUnclaimedPayoutItem,
   getProduct,
+  listProducts,
+  updateProduct,
   getInvoice,
+  sendInvoice,
+  remindInvoice,
+  cancelInvoice,
+  recordInvoicePayment,
+  deleteInvoicePayment,
+  recordInvoiceRefund,
+  generateInvoiceNumber,
+  listInvoices,
+  searchInvoices,
+  createInvoiceTemplate,
+  listInvoiceTemplates,
+  getInvoiceTemplate,
+  updateInvoiceTemplate,
+  deleteInvoiceTemplate,
+  createPlan,
+  listPlans,
+  getPlan,
+  updatePlanPricing,
+  activatePlan,
+  deactivatePlan,
 ];
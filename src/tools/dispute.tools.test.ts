@@ -0,0 +1,67 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config.js';
+import { PayPalAuthService } from '../services/auth.service.js';
+import { disputeTools } from './dispute.tools.js';
+
+const provideDisputeEvidence = disputeTools.find(tool => tool.name === 'provide_dispute_evidence')!;
+
+describe('provide_dispute_evidence', () => {
+  let root: string;
+  let post: jest.Mock;
+  let authService: PayPalAuthService;
+  
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'paypal-evidence-'));
+    await mkdir(join(root, 'evidence', 'receipts'), { recursive: true });
+    await writeFile(join(root, 'evidence', 'receipts', 'receipt.pdf'), '%PDF-1.4');
+    await writeFile(join(root, 'secret.pdf'), '%PDF-1.4 secret');
+    await symlink(join(root, 'secret.pdf'), join(root, 'evidence', 'link.pdf'));
+    config.disputes.evidenceDir = join(root, 'evidence');
+    
+    post = jest.fn(async () => ({ data: { links: [] } }));
+    authService = { getAxiosInstance: () => ({ post }) } as unknown as PayPalAuthService;
+  });
+  
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+  
+  const provide = (files: string[]) => provideDisputeEvidence.handler({
+    dispute_id: 'PP-D-1',
+    evidences: [{ evidence_type: 'PROOF_OF_FULFILLMENT' }],
+    files,
+    idempotency_key: 'key-1',
+  }, authService);
+  
+  it('uploads files given relative to the evidence directory', async () => {
+    await provide(['receipts/receipt.pdf']);
+    
+    expect(post).toHaveBeenCalledTimes(1);
+    const form = (post.mock.calls[0] as any[])[1] as FormData;
+    const file = form.get('evidence_file') as File;
+    expect(file.name).toBe('receipt.pdf');
+    expect(file.type).toBe('application/pdf');
+    expect(await file.text()).toBe('%PDF-1.4');
+  });
+  
+  it.each([
+    ['a relative path that leaves the directory', '../secret.pdf'],
+    ['an absolute path outside the directory', () => join(root, 'secret.pdf')],
+    ['a symbolic link that points outside the directory', 'link.pdf'],
+  ])('rejects %s', async (_case, path) => {
+    await expect(provide([typeof path === 'function' ? path() : path])).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('outside the evidence directory'),
+    });
+    expect(post).not.toHaveBeenCalled();
+  });
+  
+  it('rejects missing files and unsupported types', async () => {
+    await expect(provide(['missing.pdf'])).rejects.toMatchObject({ message: expect.stringContaining('Evidence file not found') });
+    await expect(provide(['../../etc/passwd'])).rejects.toMatchObject({ message: expect.stringContaining('Unsupported evidence file type') });
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Dispute tools for PayPal MCP Server
+ * 
+ * Implements dispute-related tools for the MCP server.
+ */
+
+import { readFile, realpath, stat } from 'fs/promises';
+import { basename, extname, isAbsolute, relative, resolve, sep } from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config.js';
+import { PayPalAuthService } from '../services/auth.service.js';
+import { logger } from '../utils/logger.js';
+import { toPayPalError } from '../utils/errors.js';
+
+/**
+ * Tool definition interface
+ */
+interface Tool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  handler: (args: any, authService: PayPalAuthService) => Promise<any>;
+  idempotent?: boolean;
+  repeatable?: boolean; // Identical calls are deliberate repeats, so no key is derived from the arguments
+}
+
+/**
+ * File types and sizes PayPal accepts as dispute evidence
+ */
+const EVIDENCE_CONTENT_TYPES: Record<string, string> = {
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+};
+const MAX_EVIDENCE_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_EVIDENCE_TOTAL_BYTES = 50 * 1024 * 1024;
+
+const amountInputSchema = {
+  type: 'object',
+  properties: {
+    currency_code: { type: 'string' },
+    value: { type: 'string' },
+  },
+  required: ['currency_code', 'value'],
+};
+
+/**
+ * Read evidence files from the evidence directory and check them against
+ * PayPal's upload limits
+ * 
+ * Paths are resolved against the evidence directory, and paths that lead
+ * outside it, including through symbolic links, are rejected, because remote
+ * clients of the HTTP transport must not be able to upload arbitrary files
+ * from the server.
+ */
+async function readEvidenceFiles(paths: string[]): Promise<{ name: string; type: string; content: Buffer }[]> {
+  if (paths.length === 0) {
+    return [];
+  }
+  
+  let evidenceDir: string;
+  try {
+    evidenceDir = await realpath(config.disputes.evidenceDir);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Evidence directory not found: ${config.disputes.evidenceDir}`);
+  }
+  
+  const files = [];
+  let totalBytes = 0;
+  
+  for (const path of paths) {
+    const type = EVIDENCE_CONTENT_TYPES[extname(path).toLowerCase()];
+    if (!type) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unsupported evidence file type: ${path}. Allowed types: ${Object.keys(EVIDENCE_CONTENT_TYPES).join(', ')}`
+      );
+    }
+    
+    let filePath: string;
+    try {
+      filePath = await realpath(resolve(evidenceDir, path));
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Evidence file not found: ${path}`);
+    }
+    
+    const relativePath = relative(evidenceDir, filePath);
+    if (relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+      throw new McpError(ErrorCode.InvalidParams, `Evidence file ${path} is outside the evidence directory`);
+    }
+    
+    const size = (await stat(filePath)).size;
+    if (size > MAX_EVIDENCE_FILE_BYTES) {
+      throw new McpError(ErrorCode.InvalidParams, `Evidence file ${path} exceeds the 10MB limit`);
+    }
+    
+    totalBytes += size;
+    if (totalBytes > MAX_EVIDENCE_TOTAL_BYTES) {
+      throw new McpError(ErrorCode.InvalidParams, 'Evidence files exceed the 50MB total limit');
+    }
+    
+    files.push({ name: basename(filePath), type, content: await readFile(filePath) });
+  }
+  
+  return files;
+}
+
+/**
+ * List Disputes Tool
+ * 
+ * Lists disputes, optionally filtered by state, transaction or start time.
+ */
+const listDisputes: Tool = {
+  name: 'list_disputes',
+  description: 'List disputes, optionally filtered by state, transaction or start time',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      start_time: { type: 'string', format: 'date-time' },
+      disputed_transaction_id: { type: 'string' },
+      dispute_state: {
+        type: 'string',
+        enum: ['REQUIRED_ACTION', 'REQUIRED_OTHER_PARTY_ACTION', 'UNDER_PAYPAL_REVIEW', 'RESOLVED', 'OPEN_INQUIRIES', 'APPEALABLE'],
+      },
+      page_size: { type: 'number' },
+      next_page_token: { type: 'string' },
+    },
+  },
+  handler: async (args, authService) => {
+    logger.info('Listing disputes');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v1/customer/disputes', { params: args });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to list disputes:', error);
+      throw toPayPalError(error, 'Failed to list disputes');
+    }
+  },
+};
+
+/**
+ * Get Dispute Tool
+ * 
+ * Retrieves the details of a dispute.
+ */
+const getDispute: Tool = {
+  name: 'get_dispute',
+  description: 'Get the details of a dispute',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      dispute_id: { type: 'string' },
+    },
+    required: ['dispute_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting dispute: ${args.dispute_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/customer/disputes/${args.dispute_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get dispute ${args.dispute_id}:`, error);
+      throw toPayPalError(error, `Failed to get dispute ${args.dispute_id}`);
+    }
+  },
+};
+
+/**
+ * Accept Dispute Claim Tool
+ * 
+ * Accepts liability for a dispute claim, which closes it in the buyer's favour.
+ */
+const acceptDisputeClaim: Tool = {
+  name: 'accept_dispute_claim',
+  description: 'Accept liability for a dispute claim',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      dispute_id: { type: 'string' },
+      note: { type: 'string' },
+      accept_claim_reason: {
+        type: 'string',
+        enum: ['DID_NOT_SHIP_ITEM', 'TOO_TIME_CONSUMING', 'LOST_IN_MAIL', 'NOT_ABLE_TO_WIN', 'COMPANY_POLICY', 'REASON_NOT_SET'],
+      },
+      accept_claim_type: {
+        type: 'string',
+        enum: ['REFUND', 'REFUND_WITH_RETURN', 'PARTIAL_REFUND', 'REFUND_WITH_RETURN_SHIPMENT_LABEL'],
+      },
+      invoice_id: { type: 'string' },
+      refund_amount: amountInputSchema,
+      return_shipping_address: { type: 'object' },
+    },
+    required: ['dispute_id', 'note'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Accepting claim for dispute: ${args.dispute_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { dispute_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v1/customer/disputes/${dispute_id}/accept-claim`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to accept claim for dispute ${dispute_id}:`, error);
+      throw toPayPalError(error, `Failed to accept claim for dispute ${dispute_id}`);
+    }
+  },
+};
+
+/**
+ * Make Dispute Offer Tool
+ * 
+ * Offers the buyer a refund or replacement to resolve a dispute.
+ */
+const makeDisputeOffer: Tool = {
+  name: 'make_dispute_offer',
+  description: 'Make an offer to the buyer to resolve a dispute',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      dispute_id: { type: 'string' },
+      note: { type: 'string' },
+      offer_type: {
+        type: 'string',
+        enum: ['REFUND', 'REFUND_WITH_RETURN', 'REFUND_WITH_REPLACEMENT', 'REPLACEMENT_WITHOUT_REFUND'],
+      },
+      offer_amount: amountInputSchema,
+      invoice_id: { type: 'string' },
+      return_shipping_address: { type: 'object' },
+    },
+    required: ['dispute_id', 'note', 'offer_type'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Making offer for dispute: ${args.dispute_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { dispute_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v1/customer/disputes/${dispute_id}/make-offer`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to make offer for dispute ${dispute_id}:`, error);
+      throw toPayPalError(error, `Failed to make offer for dispute ${dispute_id}`);
+    }
+  },
+};
+
+/**
+ * Send Dispute Message Tool
+ * 
+ * Sends a message to the buyer about a dispute.
+ */
+const sendDisputeMessage: Tool = {
+  name: 'send_dispute_message',
+  description: 'Send a message to the buyer about a dispute',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      dispute_id: { type: 'string' },
+      message: { type: 'string' },
+    },
+    required: ['dispute_id', 'message'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    logger.info(`Sending message for dispute: ${args.dispute_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { dispute_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v1/customer/disputes/${dispute_id}/send-message`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to send message for dispute ${dispute_id}:`, error);
+      throw toPayPalError(error, `Failed to send message for dispute ${dispute_id}`);
+    }
+  },
+};
+
+/**
+ * Escalate Dispute Tool
+ * 
+ * Escalates a dispute to a PayPal claim for review.
+ */
+const escalateDispute: Tool = {
+  name: 'escalate_dispute',
+  description: 'Escalate a dispute to a PayPal claim',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      dispute_id: { type: 'string' },
+      note: { type: 'string' },
+    },
+    required: ['dispute_id', 'note'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Escalating dispute: ${args.dispute_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { dispute_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v1/customer/disputes/${dispute_id}/escalate`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to escalate dispute ${dispute_id}:`, error);
+      throw toPayPalError(error, `Failed to escalate dispute ${dispute_id}`);
+    }
+  },
+};
+
+/**
+ * Provide Dispute Evidence Tool
+ * 
+ * Submits evidence for a dispute as a multipart upload of files from the
+ * evidence directory.
+ */
+const provideDisputeEvidence: Tool = {
+  name: 'provide_dispute_evidence',
+  description: 'Provide evidence for a dispute, uploading JPG, GIF, PNG or PDF files given as paths relative to the server\'s evidence directory',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      dispute_id: { type: 'string' },
+      evidences: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            evidence_type: { type: 'string' },
+            evidence_info: { type: 'object' },
+            notes: { type: 'string' },
+          },
+          required: ['evidence_type'],
+        },
+      },
+      files: { type: 'array', items: { type: 'string' } },
+      return_shipping_address: { type: 'object' },
+    },
+    required: ['dispute_id', 'evidences'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Providing evidence for dispute: ${args.dispute_id}`);
+    
+    const { dispute_id, idempotency_key, files: paths = [], ...input } = args;
+    const files = await readEvidenceFiles(paths);
+    
+    const form = new FormData();
+    form.append('input', new Blob([JSON.stringify(input)], { type: 'application/json' }));
+    for (const file of files) {
+      form.append('evidence_file', new Blob([new Uint8Array(file.content)], { type: file.type }), file.name);
+    }
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      // Override the instance's JSON content type so axios sends the form as multipart
+      const response = await axios.post(`/v1/customer/disputes/${dispute_id}/provide-evidence`, form, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+          'PayPal-Request-Id': idempotency_key,
+        },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to provide evidence for dispute ${dispute_id}:`, error);
+      throw toPayPalError(error, `Failed to provide evidence for dispute ${dispute_id}`);
+    }
+  },
+};
+
+/**
+ * Export all dispute tools
+ */
+export const disputeTools: Tool[] = [
+  listDisputes,
+  getDispute,
+  acceptDisputeClaim,
+  makeDisputeOffer,
+  sendDisputeMessage,
+  escalateDispute,
+  provideDisputeEvidence,
+];
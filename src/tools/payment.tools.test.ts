@@ -0,0 +1,96 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { PayPalAuthService } from '../services/auth.service.js';
+import { paymentTools } from './payment.tools.js';
+
+const refundCapture = paymentTools.find(tool => tool.name === 'refund_capture')!;
+
+/**
+ * Auth service whose axios instance answers GET requests from the given
+ * resources and records refunds
+ */
+function createAuthService(resources: Record<string, any>) {
+  const get = jest.fn(async (url: string) => {
+    if (!resources[url]) {
+      throw new Error(`Unexpected request: GET ${url}`);
+    }
+    return { data: resources[url] };
+  });
+  const post = jest.fn(async () => ({ data: { id: 'REFUND-2', status: 'COMPLETED' } }));
+  const authService = { getAxiosInstance: () => ({ get, post }) } as unknown as PayPalAuthService;
+  return { authService, post };
+}
+
+const capture = (status: string, amount: { currency_code: string; value: string }, orderId?: string) => ({
+  id: 'CAPTURE-1',
+  status,
+  amount,
+  supplementary_data: orderId ? { related_ids: { order_id: orderId } } : undefined,
+});
+
+const refund = (value: string, currency_code = 'USD', status = 'COMPLETED') => ({
+  status,
+  amount: { currency_code, value },
+  links: [{ rel: 'up', href: 'https://api-m.paypal.com/v2/payments/captures/CAPTURE-1' }],
+});
+
+describe('refund_capture', () => {
+  it('subtracts earlier refunds read from the order', async () => {
+    const { authService, post } = createAuthService({
+      '/v2/payments/captures/CAPTURE-1': capture('PARTIALLY_REFUNDED', { currency_code: 'USD', value: '100.00' }, 'ORDER-1'),
+      '/v2/checkout/orders/ORDER-1': {
+        purchase_units: [{ payments: { refunds: [refund('30.00'), refund('50.00', 'USD', 'CANCELLED')] } }],
+      },
+    });
+    const args = { capture_id: 'CAPTURE-1', idempotency_key: 'key-1' };
+    
+    await expect(refundCapture.handler({ ...args, amount: { currency_code: 'USD', value: '70.01' } }, authService))
+      .rejects.toMatchObject({ message: expect.stringContaining('exceeds the refundable amount 70.00 USD') });
+    await refundCapture.handler({ ...args, amount: { currency_code: 'USD', value: '70.00' } }, authService);
+    
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+  
+  it('formats the refundable amount of zero-decimal currencies in whole units', async () => {
+    const { authService, post } = createAuthService({
+      '/v2/payments/captures/CAPTURE-1': capture('COMPLETED', { currency_code: 'JPY', value: '5000' }),
+    });
+    
+    await expect(refundCapture.handler({
+      capture_id: 'CAPTURE-1',
+      amount: { currency_code: 'JPY', value: '5001' },
+      idempotency_key: 'key-1',
+    }, authService)).rejects.toMatchObject({ message: expect.stringContaining('exceeds the refundable amount 5000 JPY') });
+    expect(post).not.toHaveBeenCalled();
+  });
+  
+  it('rejects refunds of a fully refunded capture', async () => {
+    const { authService, post } = createAuthService({
+      '/v2/payments/captures/CAPTURE-1': capture('REFUNDED', { currency_code: 'USD', value: '100.00' }),
+    });
+    
+    await expect(refundCapture.handler({ capture_id: 'CAPTURE-1', idempotency_key: 'key-1' }, authService))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining('already been fully refunded') });
+    expect(post).not.toHaveBeenCalled();
+  });
+  
+  it('requires an amount for a partially refunded capture without an order', async () => {
+    const { authService, post } = createAuthService({
+      '/v2/payments/captures/CAPTURE-1': capture('PARTIALLY_REFUNDED', { currency_code: 'USD', value: '100.00' }),
+    });
+    
+    await expect(refundCapture.handler({ capture_id: 'CAPTURE-1', idempotency_key: 'key-1' }, authService))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining('Pass the amount to refund') });
+    expect(post).not.toHaveBeenCalled();
+    
+    await refundCapture.handler({
+      capture_id: 'CAPTURE-1',
+      amount: { currency_code: 'USD', value: '10.00' },
+      idempotency_key: 'key-1',
+    }, authService);
+    expect(post).toHaveBeenCalledWith(
+      '/v2/payments/captures/CAPTURE-1/refund',
+      { amount: { currency_code: 'USD', value: '10.00' } },
+      { headers: { 'PayPal-Request-Id': 'key-1' } }
+    );
+  });
+});
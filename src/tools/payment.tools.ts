@@ -4,8 +4,12 @@
  * Implements payment-related tools for the MCP server.
  */
 
+import { AxiosInstance } from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { PayPalAuthService } from '../services/auth.service.js';
 import { logger } from '../utils/logger.js';
+import { toPayPalError } from '../utils/errors.js';
+import { formatMinorUnits, toMinorUnits } from '../utils/amount.js';
 
 /**
  * Tool definition interface
@@ -15,8 +19,66 @@ interface Tool {
   description: string;
   inputSchema: Record<string, any>;
   handler: (args: any, authService: PayPalAuthService) => Promise<any>;
+  idempotent?: boolean;
+  repeatable?: boolean; // Identical calls are deliberate repeats, so no key is derived from the arguments
 }
 
+/**
+ * Vault payment source input schema shared by payment and setup tokens
+ */
+const vaultWalletInputSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    usage_pattern: { type: 'string' },
+    usage_type: { type: 'string', enum: ['MERCHANT', 'PLATFORM'] },
+    customer_type: { type: 'string', enum: ['CONSUMER', 'BUSINESS'] },
+    permit_multiple_payment_tokens: { type: 'boolean' },
+    shipping: { type: 'object' },
+    experience_context: {
+      type: 'object',
+      properties: {
+        brand_name: { type: 'string' },
+        locale: { type: 'string' },
+        return_url: { type: 'string', format: 'uri' },
+        cancel_url: { type: 'string', format: 'uri' },
+        shipping_preference: { type: 'string', enum: ['GET_FROM_FILE', 'NO_SHIPPING', 'SET_PROVIDED_ADDRESS'] },
+        vault_instruction: { type: 'string', enum: ['ON_CREATE_PAYMENT_TOKENS', 'ON_PAYER_APPROVAL'] },
+      },
+      required: ['return_url', 'cancel_url'],
+    },
+  },
+  required: ['usage_type'],
+};
+
+const vaultPaymentSourceInputSchema = {
+  type: 'object',
+  description: 'Exactly one of card, paypal or venmo',
+  properties: {
+    card: {
+      type: 'object',
+      properties: {
+        number: { type: 'string' },
+        expiry: { type: 'string', description: 'YYYY-MM' },
+        name: { type: 'string' },
+        security_code: { type: 'string' },
+        billing_address: { type: 'object' },
+      },
+      required: ['number', 'expiry', 'name', 'security_code'],
+    },
+    paypal: vaultWalletInputSchema,
+    venmo: vaultWalletInputSchema,
+  },
+};
+
+const vaultCustomerInputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    email_address: { type: 'string', format: 'email' },
+  },
+};
+
 /**
  * Create Payment Token Tool
  * 
@@ -24,47 +86,233 @@ interface Tool {
  */
 const createPaymentToken: Tool = {
   name: 'create_payment_token',
-  description: 'Create a payment token for future use',
+  description: 'Create a payment token for future use from a card, PayPal wallet or Venmo',
   inputSchema: {
     type: 'object',
     properties: {
-      customer: {
-        type: 'object',
-        properties: {
-          id: { type: 'string' },
-          email_address: { type: 'string', format: 'email' },
-        },
-      },
-      payment_source: {
-        type: 'object',
-        properties: {
-          card: {
-            type: 'object',
-            properties: {
-              number: { type: 'string' },
-              expiry: { type: 'string' },
-              name: { type: 'string' },
-              security_code: { type: 'string' },
-            },
-            required: ['number', 'expiry', 'name', 'security_code'],
-          },
-        },
-        required: ['card'],
-      },
+      customer: vaultCustomerInputSchema,
+      payment_source: vaultPaymentSourceInputSchema,
     },
     required: ['customer', 'payment_source'],
   },
+  idempotent: true,
   handler: async (args, authService) => {
     logger.info('Creating payment token');
     
     const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post('/v1/vault/payment-tokens', args);
+      const response = await axios.post('/v3/vault/payment-tokens', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
       logger.error('Failed to create payment token:', error);
-      throw new Error('Failed to create payment token');
+      throw toPayPalError(error, 'Failed to create payment token');
+    }
+  },
+};
+
+/**
+ * Create Setup Token Tool
+ * 
+ * Creates a setup token to vault a payment source. PayPal and Venmo sources
+ * return an approval link the buyer must follow before the setup token can be
+ * turned into a payment token.
+ */
+const createSetupToken: Tool = {
+  name: 'create_setup_token',
+  description: 'Create a setup token to vault a card, PayPal wallet or Venmo',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      customer: vaultCustomerInputSchema,
+      payment_source: vaultPaymentSourceInputSchema,
+    },
+    required: ['payment_source'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info('Creating setup token');
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post('/v3/vault/setup-tokens', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to create setup token:', error);
+      throw toPayPalError(error, 'Failed to create setup token');
+    }
+  },
+};
+
+/**
+ * Get Setup Token Tool
+ * 
+ * Retrieves a setup token, including whether the buyer has approved it.
+ */
+const getSetupToken: Tool = {
+  name: 'get_setup_token',
+  description: 'Get a setup token and its approval status',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      setup_token_id: { type: 'string' },
+    },
+    required: ['setup_token_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting setup token: ${args.setup_token_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v3/vault/setup-tokens/${args.setup_token_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get setup token ${args.setup_token_id}:`, error);
+      throw toPayPalError(error, `Failed to get setup token ${args.setup_token_id}`);
+    }
+  },
+};
+
+/**
+ * Create Payment Token From Setup Token Tool
+ * 
+ * Turns an approved setup token into a reusable payment token.
+ */
+const createPaymentTokenFromSetupToken: Tool = {
+  name: 'create_payment_token_from_setup_token',
+  description: 'Create a payment token from an approved setup token',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      setup_token_id: { type: 'string' },
+      customer: vaultCustomerInputSchema,
+    },
+    required: ['setup_token_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Creating payment token from setup token: ${args.setup_token_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { setup_token_id, customer } = args;
+    
+    try {
+      const response = await axios.post('/v3/vault/payment-tokens', {
+        customer,
+        payment_source: {
+          token: {
+            id: setup_token_id,
+            type: 'SETUP_TOKEN',
+          },
+        },
+      }, {
+        headers: { 'PayPal-Request-Id': args.idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to create payment token from setup token ${setup_token_id}:`, error);
+      throw toPayPalError(error, `Failed to create payment token from setup token ${setup_token_id}`);
+    }
+  },
+};
+
+/**
+ * List Payment Tokens Tool
+ * 
+ * Lists the payment tokens vaulted for a customer.
+ */
+const listPaymentTokens: Tool = {
+  name: 'list_payment_tokens',
+  description: "List a customer's vaulted payment tokens",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      customer_id: { type: 'string' },
+      page: { type: 'number' },
+      page_size: { type: 'number' },
+      total_required: { type: 'boolean' },
+    },
+    required: ['customer_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Listing payment tokens for customer: ${args.customer_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v3/vault/payment-tokens', { params: args });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to list payment tokens for customer ${args.customer_id}:`, error);
+      throw toPayPalError(error, `Failed to list payment tokens for customer ${args.customer_id}`);
+    }
+  },
+};
+
+/**
+ * Get Payment Token Tool
+ * 
+ * Retrieves a vaulted payment token.
+ */
+const getPaymentToken: Tool = {
+  name: 'get_payment_token',
+  description: 'Get a vaulted payment token',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      payment_token_id: { type: 'string' },
+    },
+    required: ['payment_token_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting payment token: ${args.payment_token_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v3/vault/payment-tokens/${args.payment_token_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get payment token ${args.payment_token_id}:`, error);
+      throw toPayPalError(error, `Failed to get payment token ${args.payment_token_id}`);
+    }
+  },
+};
+
+/**
+ * Delete Payment Token Tool
+ * 
+ * Deletes a vaulted payment token.
+ */
+const deletePaymentToken: Tool = {
+  name: 'delete_payment_token',
+  description: 'Delete a vaulted payment token',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      payment_token_id: { type: 'string' },
+    },
+    required: ['payment_token_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Deleting payment token: ${args.payment_token_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      await axios.delete(`/v3/vault/payment-tokens/${args.payment_token_id}`);
+      return { success: true, payment_token_id: args.payment_token_id };
+    } catch (error) {
+      logger.error(`Failed to delete payment token ${args.payment_token_id}:`, error);
+      throw toPayPalError(error, `Failed to delete payment token ${args.payment_token_id}`);
     }
   },
 };
@@ -101,17 +349,21 @@ const createOrder: Tool = {
     },
     required: ['intent', 'purchase_units'],
   },
+  idempotent: true,
   handler: async (args, authService) => {
     logger.info('Creating order');
     
     const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post('/v2/checkout/orders', args);
+      const response = await axios.post('/v2/checkout/orders', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
       logger.error('Failed to create order:', error);
-      throw new Error('Failed to create order');
+      throw toPayPalError(error, 'Failed to create order');
     }
   },
 };
@@ -132,125 +384,1209 @@ const captureOrder: Tool = {
     },
     required: ['order_id'],
   },
+  idempotent: true,
   handler: async (args, authService) => {
     logger.info(`Capturing order: ${args.order_id}`);
     
     const axios = authService.getAxiosInstance();
-    const { order_id, ...payload } = args;
+    const { order_id, idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post(`/v2/checkout/orders/${order_id}/capture`, payload);
+      const response = await axios.post(`/v2/checkout/orders/${order_id}/capture`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
       logger.error(`Failed to capture order ${order_id}:`, error);
-      throw new Error(`Failed to capture order ${order_id}`);
+      throw toPayPalError(error, `Failed to capture order ${order_id}`);
     }
   },
 };
 
 /**
- * Create Payment Tool
+ * Get Order Tool
  * 
- * Creates a direct payment using the PayPal API.
+ * Retrieves the details and current status of an order.
  */
-const createPayment: Tool = {
-  name: 'create_payment',
-  description: 'Create a direct payment',
+const getOrder: Tool = {
+  name: 'get_order',
+  description: 'Get the details and status of an order',
   inputSchema: {
     type: 'object',
     properties: {
-      intent: { type: 'string', enum: ['sale', 'authorize', 'order'] },
-      payer: {
-        type: 'object',
-        properties: {
-          payment_method: { type: 'string' },
-        },
-        required: ['payment_method'],
-      },
-      transactions: {
+      order_id: { type: 'string' },
+    },
+    required: ['order_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting order: ${args.order_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v2/checkout/orders/${args.order_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get order ${args.order_id}:`, error);
+      throw toPayPalError(error, `Failed to get order ${args.order_id}`);
+    }
+  },
+};
+
+/**
+ * Update Order Tool
+ * 
+ * Updates the purchase units of a CREATED or APPROVED order using JSON Patch operations.
+ */
+const updateOrder: Tool = {
+  name: 'update_order',
+  description: 'Update the purchase units of an order using JSON Patch operations',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      order_id: { type: 'string' },
+      operations: {
         type: 'array',
         items: {
           type: 'object',
           properties: {
-            amount: {
-              type: 'object',
-              properties: {
-                total: { type: 'string' },
-                currency: { type: 'string' },
-              },
-              required: ['total', 'currency'],
-            },
+            op: { type: 'string', enum: ['add', 'replace', 'remove'] },
+            path: { type: 'string' },
+            value: {},
+            from: { type: 'string' },
           },
-          required: ['amount'],
-        },
-      },
-      redirect_urls: {
-        type: 'object',
-        properties: {
-          return_url: { type: 'string', format: 'uri' },
-          cancel_url: { type: 'string', format: 'uri' },
+          required: ['op', 'path'],
         },
-        required: ['return_url', 'cancel_url'],
       },
     },
-    required: ['intent', 'payer', 'transactions', 'redirect_urls'],
+    required: ['order_id', 'operations'],
   },
   handler: async (args, authService) => {
-    logger.info('Creating payment');
+    logger.info(`Updating order: ${args.order_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { order_id, operations } = args;
+    
+    try {
+      await axios.patch(`/v2/checkout/orders/${order_id}`, operations);
+      return { success: true, order_id };
+    } catch (error) {
+      logger.error(`Failed to update order ${order_id}:`, error);
+      throw toPayPalError(error, `Failed to update order ${order_id}`);
+    }
+  },
+};
+
+/**
+ * Authorize Order Tool
+ * 
+ * Authorizes payment for an approved order created with the AUTHORIZE intent.
+ */
+const authorizeOrder: Tool = {
+  name: 'authorize_order',
+  description: 'Authorize payment for an approved order',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      order_id: { type: 'string' },
+      payment_source: { type: 'object' },
+    },
+    required: ['order_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Authorizing order: ${args.order_id}`);
     
     const axios = authService.getAxiosInstance();
+    const { order_id, idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post('/v1/payments/payment', args);
+      const response = await axios.post(`/v2/checkout/orders/${order_id}/authorize`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
-      logger.error('Failed to create payment:', error);
-      throw new Error('Failed to create payment');
+      logger.error(`Failed to authorize order ${order_id}:`, error);
+      throw toPayPalError(error, `Failed to authorize order ${order_id}`);
     }
   },
 };
 
 /**
- * Create Subscription Tool
+ * Confirm Payment Source Tool
  * 
- * Creates a subscription for recurring billing.
+ * Attaches a payment source to an order so that it can be approved without buyer redirection.
  */
-const createSubscription: Tool = {
-  name: 'create_subscription',
-  description: 'Create a subscription for recurring billing',
+const confirmPaymentSource: Tool = {
+  name: 'confirm_payment_source',
+  description: 'Confirm the payment source for an order',
   inputSchema: {
     type: 'object',
     properties: {
-      plan_id: { type: 'string' },
-      subscriber: {
-        type: 'object',
-        properties: {
-          name: {
-            type: 'object',
-            properties: {
-              given_name: { type: 'string' },
-              surname: { type: 'string' },
-            },
-            required: ['given_name'],
-          },
-          email_address: { type: 'string', format: 'email' },
-        },
-        required: ['name', 'email_address'],
-      },
+      order_id: { type: 'string' },
+      payment_source: { type: 'object' },
+      application_context: { type: 'object' },
     },
-    required: ['plan_id', 'subscriber'],
+    required: ['order_id', 'payment_source'],
   },
+  idempotent: true,
   handler: async (args, authService) => {
-    logger.info('Creating subscription');
+    logger.info(`Confirming payment source for order: ${args.order_id}`);
     
     const axios = authService.getAxiosInstance();
+    const { order_id, idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post('/v1/billing/subscriptions', args);
+      const response = await axios.post(`/v2/checkout/orders/${order_id}/confirm-payment-source`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
-      logger.error('Failed to create subscription:', error);
-      throw new Error('Failed to create subscription');
+      logger.error(`Failed to confirm payment source for order ${order_id}:`, error);
+      throw toPayPalError(error, `Failed to confirm payment source for order ${order_id}`);
+    }
+  },
+};
+
+/**
+ * Shipment tracking input schema shared by single and bulk tracking
+ */
+const trackingInputSchema = {
+  type: 'object',
+  properties: {
+    order_id: { type: 'string' },
+    capture_id: { type: 'string' },
+    tracking_number: { type: 'string' },
+    carrier: { type: 'string', description: 'PayPal carrier code, e.g. UPS, FEDEX, USPS or OTHER' },
+    carrier_name_other: { type: 'string' },
+    notify_payer: { type: 'boolean' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          quantity: { type: 'string' },
+          sku: { type: 'string' },
+          url: { type: 'string', format: 'uri' },
+          image_url: { type: 'string', format: 'uri' },
+          upc: { type: 'object' },
+        },
+        required: ['name', 'quantity'],
+      },
+    },
+  },
+  required: ['order_id', 'capture_id', 'tracking_number', 'carrier'],
+};
+
+/**
+ * Add tracking information for a single shipment
+ */
+async function addShipmentTracking(axios: AxiosInstance, shipment: any, requestId: string): Promise<any> {
+  const { order_id, ...payload } = shipment;
+  const response = await axios.post(`/v2/checkout/orders/${order_id}/track`, payload, {
+    headers: { 'PayPal-Request-Id': requestId },
+  });
+  return response.data;
+}
+
+/**
+ * Add Tracking Tool
+ * 
+ * Adds shipment tracking information to a captured order.
+ */
+const addTracking: Tool = {
+  name: 'add_tracking',
+  description: 'Add shipment tracking information to a captured order',
+  inputSchema: trackingInputSchema,
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Adding tracking for order: ${args.order_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...shipment } = args;
+    
+    try {
+      return await addShipmentTracking(axios, shipment, idempotency_key);
+    } catch (error) {
+      logger.error(`Failed to add tracking for order ${args.order_id}:`, error);
+      throw toPayPalError(error, `Failed to add tracking for order ${args.order_id}`);
+    }
+  },
+};
+
+/**
+ * Add Tracking Bulk Tool
+ * 
+ * Adds tracking information for many shipments, reporting the outcome of each
+ * one instead of stopping at the first failure.
+ */
+const addTrackingBulk: Tool = {
+  name: 'add_tracking_bulk',
+  description: 'Add shipment tracking information to many captured orders at once',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      shipments: {
+        type: 'array',
+        items: trackingInputSchema,
+      },
+    },
+    required: ['shipments'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Adding tracking for ${args.shipments.length} shipments`);
+    
+    const axios = authService.getAxiosInstance();
+    const results = [];
+    
+    for (const [index, shipment] of args.shipments.entries()) {
+      try {
+        // Each shipment is a separate request, so each gets its own request ID
+        const order = await addShipmentTracking(axios, shipment, `${args.idempotency_key}-${index + 1}`);
+        results.push({
+          order_id: shipment.order_id,
+          capture_id: shipment.capture_id,
+          tracking_number: shipment.tracking_number,
+          success: true,
+          order_status: order.status,
+        });
+      } catch (error) {
+        logger.error(`Failed to add tracking for order ${shipment.order_id}:`, error);
+        results.push({
+          order_id: shipment.order_id,
+          capture_id: shipment.capture_id,
+          tracking_number: shipment.tracking_number,
+          success: false,
+          error: toPayPalError(error, `Failed to add tracking for order ${shipment.order_id}`).message,
+        });
+      }
+    }
+    
+    return {
+      total: results.length,
+      succeeded: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+      results,
+    };
+  },
+};
+
+/**
+ * Update Tracking Tool
+ * 
+ * Updates or cancels the tracking information of a shipment.
+ */
+const updateTracking: Tool = {
+  name: 'update_tracking',
+  description: 'Update or cancel shipment tracking information for an order',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      order_id: { type: 'string' },
+      tracker_id: { type: 'string', description: 'The tracker ID, formed as <capture_id>-<tracking_number>' },
+      status: { type: 'string', enum: ['SHIPPED', 'CANCELLED'] },
+      tracking_number: { type: 'string' },
+      carrier: { type: 'string' },
+      carrier_name_other: { type: 'string' },
+      notify_payer: { type: 'boolean' },
+    },
+    required: ['order_id', 'tracker_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Updating tracker ${args.tracker_id} for order: ${args.order_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { order_id, tracker_id, ...fields } = args;
+    
+    const operations = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => ({ op: 'replace', path: `/${field}`, value }));
+    
+    try {
+      await axios.patch(`/v2/checkout/orders/${order_id}/trackers/${tracker_id}`, operations);
+      return { success: true, order_id, tracker_id };
+    } catch (error) {
+      logger.error(`Failed to update tracker ${tracker_id} for order ${order_id}:`, error);
+      throw toPayPalError(error, `Failed to update tracker ${tracker_id} for order ${order_id}`);
+    }
+  },
+};
+
+/**
+ * Summarize an authorization so its status and expiry are easy to read
+ */
+function summarizeAuthorization(authorization: any): Record<string, any> {
+  return {
+    id: authorization.id,
+    status: authorization.status,
+    status_details: authorization.status_details,
+    amount: authorization.amount,
+    expiration_time: authorization.expiration_time,
+    update_time: authorization.update_time,
+  };
+}
+
+/**
+ * Fetch an authorization again after capturing or voiding it
+ * 
+ * The capture or void has already gone through at that point, so a failed
+ * lookup is returned as a warning rather than thrown, which could prompt a
+ * second capture.
+ */
+async function refreshAuthorization(axios: AxiosInstance, authorizationId: string, action: string): Promise<Record<string, any>> {
+  try {
+    const response = await axios.get(`/v2/payments/authorizations/${authorizationId}`);
+    return { authorization: summarizeAuthorization(response.data) };
+  } catch (error) {
+    logger.warn(`Failed to refresh authorization ${authorizationId} after ${action}:`, error);
+    return {
+      warning: `The ${action} succeeded, but authorization ${authorizationId} could not be fetched afterwards. Use get_authorization to check its status.`,
+    };
+  }
+}
+
+/**
+ * Get Authorization Tool
+ * 
+ * Retrieves the details of an authorized payment.
+ */
+const getAuthorization: Tool = {
+  name: 'get_authorization',
+  description: 'Get the status and expiry of an authorized payment',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      authorization_id: { type: 'string' },
+    },
+    required: ['authorization_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting authorization: ${args.authorization_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v2/payments/authorizations/${args.authorization_id}`);
+      return {
+        authorization: summarizeAuthorization(response.data),
+        details: response.data,
+      };
+    } catch (error) {
+      logger.error(`Failed to get authorization ${args.authorization_id}:`, error);
+      throw toPayPalError(error, `Failed to get authorization ${args.authorization_id}`);
+    }
+  },
+};
+
+/**
+ * Capture Authorization Tool
+ * 
+ * Captures all or part of an authorized payment.
+ */
+const captureAuthorization: Tool = {
+  name: 'capture_authorization',
+  description: 'Capture all or part of an authorized payment',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      authorization_id: { type: 'string' },
+      amount: {
+        type: 'object',
+        properties: {
+          currency_code: { type: 'string' },
+          value: { type: 'string' },
+        },
+        required: ['currency_code', 'value'],
+      },
+      final_capture: { type: 'boolean' },
+      invoice_id: { type: 'string' },
+      note_to_payer: { type: 'string' },
+      soft_descriptor: { type: 'string' },
+    },
+    required: ['authorization_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Capturing authorization: ${args.authorization_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { authorization_id, idempotency_key, ...payload } = args;
+    
+    let capture;
+    try {
+      const response = await axios.post(`/v2/payments/authorizations/${authorization_id}/capture`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      capture = response.data;
+    } catch (error) {
+      logger.error(`Failed to capture authorization ${authorization_id}:`, error);
+      throw toPayPalError(error, `Failed to capture authorization ${authorization_id}`);
+    }
+    
+    return {
+      capture,
+      ...await refreshAuthorization(axios, authorization_id, 'capture'),
+    };
+  },
+};
+
+/**
+ * Reauthorize Authorization Tool
+ * 
+ * Reauthorizes an authorized payment to extend its honor period.
+ */
+const reauthorizeAuthorization: Tool = {
+  name: 'reauthorize_authorization',
+  description: 'Reauthorize an authorized payment',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      authorization_id: { type: 'string' },
+      amount: {
+        type: 'object',
+        properties: {
+          currency_code: { type: 'string' },
+          value: { type: 'string' },
+        },
+        required: ['currency_code', 'value'],
+      },
+    },
+    required: ['authorization_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Reauthorizing authorization: ${args.authorization_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { authorization_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v2/payments/authorizations/${authorization_id}/reauthorize`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return {
+        authorization: summarizeAuthorization(response.data),
+        details: response.data,
+      };
+    } catch (error) {
+      logger.error(`Failed to reauthorize authorization ${authorization_id}:`, error);
+      throw toPayPalError(error, `Failed to reauthorize authorization ${authorization_id}`);
+    }
+  },
+};
+
+/**
+ * Void Authorization Tool
+ * 
+ * Voids an authorized payment that has not been fully captured.
+ */
+const voidAuthorization: Tool = {
+  name: 'void_authorization',
+  description: 'Void an authorized payment',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      authorization_id: { type: 'string' },
+    },
+    required: ['authorization_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Voiding authorization: ${args.authorization_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      await axios.post(`/v2/payments/authorizations/${args.authorization_id}/void`, {}, {
+        headers: { 'PayPal-Request-Id': args.idempotency_key },
+      });
+    } catch (error) {
+      logger.error(`Failed to void authorization ${args.authorization_id}:`, error);
+      throw toPayPalError(error, `Failed to void authorization ${args.authorization_id}`);
+    }
+    
+    return refreshAuthorization(axios, args.authorization_id, 'void');
+  },
+};
+
+/**
+ * Work out how much of a capture can still be refunded, in minor units
+ * 
+ * The capture resource does not report how much has already been refunded, so
+ * for partially refunded captures the refunds are read from the parent order.
+ * The value is null when a partially refunded capture has no parent order to
+ * read them from.
+ */
+async function getRefundableAmount(axios: AxiosInstance, captureId: string): Promise<{ currency_code: string; value: number | null }> {
+  const capture = (await axios.get(`/v2/payments/captures/${captureId}`)).data;
+  const currencyCode = capture.amount.currency_code;
+  
+  if (capture.status === 'REFUNDED') {
+    return { currency_code: currencyCode, value: 0 };
+  }
+  
+  let refunded = 0;
+  
+  if (capture.status === 'PARTIALLY_REFUNDED') {
+    const orderId = capture.supplementary_data?.related_ids?.order_id;
+    if (!orderId) {
+      return { currency_code: currencyCode, value: null };
+    }
+    
+    const order = (await axios.get(`/v2/checkout/orders/${orderId}`)).data;
+    
+    for (const unit of order.purchase_units || []) {
+      for (const refund of unit.payments?.refunds || []) {
+        const isForCapture = (refund.links || []).some(
+          (link: any) => link.rel === 'up' && link.href.endsWith(`/captures/${captureId}`)
+        );
+        
+        if (isForCapture && !['CANCELLED', 'FAILED'].includes(refund.status)) {
+          refunded += toMinorUnits(refund.amount.value, currencyCode);
+        }
+      }
+    }
+  }
+  
+  return {
+    currency_code: currencyCode,
+    value: toMinorUnits(capture.amount.value, currencyCode) - refunded,
+  };
+}
+
+/**
+ * Refund Capture Tool
+ * 
+ * Refunds all or part of a captured payment.
+ */
+const refundCapture: Tool = {
+  name: 'refund_capture',
+  description: 'Refund all or part of a captured payment',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      capture_id: { type: 'string' },
+      amount: {
+        type: 'object',
+        properties: {
+          currency_code: { type: 'string' },
+          value: { type: 'string' },
+        },
+        required: ['currency_code', 'value'],
+      },
+      invoice_id: { type: 'string' },
+      note_to_payer: { type: 'string' },
+    },
+    required: ['capture_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Refunding capture: ${args.capture_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { capture_id, idempotency_key, ...payload } = args;
+    
+    let refundable: { currency_code: string; value: number | null };
+    try {
+      refundable = await getRefundableAmount(axios, capture_id);
+    } catch (error) {
+      logger.error(`Failed to get refundable amount for capture ${capture_id}:`, error);
+      throw toPayPalError(error, `Failed to get refundable amount for capture ${capture_id}`);
+    }
+    
+    if (refundable.value !== null && refundable.value <= 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Capture ${capture_id} has already been fully refunded`);
+    }
+    
+    // Without the earlier refunds, only PayPal can check an explicit amount
+    if (refundable.value === null && !payload.amount) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Capture ${capture_id} is partially refunded and not linked to an order, so the remaining amount cannot be determined. Pass the amount to refund.`
+      );
+    }
+    
+    if (payload.amount) {
+      if (payload.amount.currency_code !== refundable.currency_code) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Refund currency ${payload.amount.currency_code} does not match capture currency ${refundable.currency_code}`
+        );
+      }
+      
+      if (refundable.value !== null && toMinorUnits(payload.amount.value, refundable.currency_code) > refundable.value) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Refund amount ${payload.amount.value} exceeds the refundable amount ${formatMinorUnits(refundable.value, refundable.currency_code)} ${refundable.currency_code} for capture ${capture_id}`
+        );
+      }
+    }
+    
+    try {
+      const response = await axios.post(`/v2/payments/captures/${capture_id}/refund`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to refund capture ${capture_id}:`, error);
+      throw toPayPalError(error, `Failed to refund capture ${capture_id}`);
+    }
+  },
+};
+
+/**
+ * Get Refund Tool
+ * 
+ * Retrieves the details of a refund.
+ */
+const getRefund: Tool = {
+  name: 'get_refund',
+  description: 'Get the details of a refund',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      refund_id: { type: 'string' },
+    },
+    required: ['refund_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting refund: ${args.refund_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v2/payments/refunds/${args.refund_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get refund ${args.refund_id}:`, error);
+      throw toPayPalError(error, `Failed to get refund ${args.refund_id}`);
+    }
+  },
+};
+
+/**
+ * Create Payment Tool
+ * 
+ * Creates a direct payment using the PayPal API.
+ */
+const createPayment: Tool = {
+  name: 'create_payment',
+  description: 'Create a direct payment',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      intent: { type: 'string', enum: ['sale', 'authorize', 'order'] },
+      payer: {
+        type: 'object',
+        properties: {
+          payment_method: { type: 'string' },
+        },
+        required: ['payment_method'],
+      },
+      transactions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            amount: {
+              type: 'object',
+              properties: {
+                total: { type: 'string' },
+                currency: { type: 'string' },
+              },
+              required: ['total', 'currency'],
+            },
+          },
+          required: ['amount'],
+        },
+      },
+      redirect_urls: {
+        type: 'object',
+        properties: {
+          return_url: { type: 'string', format: 'uri' },
+          cancel_url: { type: 'string', format: 'uri' },
+        },
+        required: ['return_url', 'cancel_url'],
+      },
+    },
+    required: ['intent', 'payer', 'transactions', 'redirect_urls'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info('Creating payment');
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post('/v1/payments/payment', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to create payment:', error);
+      throw toPayPalError(error, 'Failed to create payment');
+    }
+  },
+};
+
+/**
+ * Execute Payment Tool
+ * 
+ * Executes a v1 payment after the buyer has approved it.
+ */
+const executePayment: Tool = {
+  name: 'execute_payment',
+  description: 'Execute a v1 payment after buyer approval',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      payment_id: { type: 'string' },
+      payer_id: { type: 'string', description: 'The PayerID returned to the return_url after approval' },
+      transactions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            amount: {
+              type: 'object',
+              properties: {
+                total: { type: 'string' },
+                currency: { type: 'string' },
+              },
+              required: ['total', 'currency'],
+            },
+          },
+          required: ['amount'],
+        },
+      },
+    },
+    required: ['payment_id', 'payer_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Executing payment: ${args.payment_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { payment_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v1/payments/payment/${payment_id}/execute`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to execute payment ${payment_id}:`, error);
+      throw toPayPalError(error, `Failed to execute payment ${payment_id}`);
+    }
+  },
+};
+
+/**
+ * Get Payment Tool
+ * 
+ * Retrieves the details of a v1 payment.
+ */
+const getPayment: Tool = {
+  name: 'get_payment',
+  description: 'Get the details of a v1 payment',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      payment_id: { type: 'string' },
+    },
+    required: ['payment_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting payment: ${args.payment_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/payments/payment/${args.payment_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get payment ${args.payment_id}:`, error);
+      throw toPayPalError(error, `Failed to get payment ${args.payment_id}`);
+    }
+  },
+};
+
+/**
+ * List Payments Tool
+ * 
+ * Lists v1 payments.
+ */
+const listPayments: Tool = {
+  name: 'list_payments',
+  description: 'List v1 payments',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      count: { type: 'number' },
+      start_id: { type: 'string' },
+      start_index: { type: 'number' },
+      start_time: { type: 'string', format: 'date-time' },
+      end_time: { type: 'string', format: 'date-time' },
+      sort_by: { type: 'string', enum: ['create_time', 'update_time'] },
+      sort_order: { type: 'string', enum: ['asc', 'desc'] },
+    },
+  },
+  handler: async (args, authService) => {
+    logger.info('Listing payments');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v1/payments/payment', { params: args });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to list payments:', error);
+      throw toPayPalError(error, 'Failed to list payments');
+    }
+  },
+};
+
+/**
+ * Get Sale Tool
+ * 
+ * Retrieves a completed v1 sale transaction.
+ */
+const getSale: Tool = {
+  name: 'get_sale',
+  description: 'Get a v1 sale transaction',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sale_id: { type: 'string' },
+    },
+    required: ['sale_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting sale: ${args.sale_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/payments/sale/${args.sale_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get sale ${args.sale_id}:`, error);
+      throw toPayPalError(error, `Failed to get sale ${args.sale_id}`);
+    }
+  },
+};
+
+/**
+ * Refund Sale Tool
+ * 
+ * Refunds all or part of a v1 sale transaction.
+ */
+const refundSale: Tool = {
+  name: 'refund_sale',
+  description: 'Refund all or part of a v1 sale transaction',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sale_id: { type: 'string' },
+      amount: {
+        type: 'object',
+        properties: {
+          total: { type: 'string' },
+          currency: { type: 'string' },
+        },
+        required: ['total', 'currency'],
+      },
+      invoice_number: { type: 'string' },
+      description: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['sale_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Refunding sale: ${args.sale_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { sale_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v1/payments/sale/${sale_id}/refund`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to refund sale ${sale_id}:`, error);
+      throw toPayPalError(error, `Failed to refund sale ${sale_id}`);
+    }
+  },
+};
+
+/**
+ * Create Subscription Tool
+ * 
+ * Creates a subscription for recurring billing.
+ */
+const createSubscription: Tool = {
+  name: 'create_subscription',
+  description: 'Create a subscription for recurring billing',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      plan_id: { type: 'string' },
+      subscriber: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'object',
+            properties: {
+              given_name: { type: 'string' },
+              surname: { type: 'string' },
+            },
+            required: ['given_name'],
+          },
+          email_address: { type: 'string', format: 'email' },
+        },
+        required: ['name', 'email_address'],
+      },
+    },
+    required: ['plan_id', 'subscriber'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info('Creating subscription');
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post('/v1/billing/subscriptions', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to create subscription:', error);
+      throw toPayPalError(error, 'Failed to create subscription');
+    }
+  },
+};
+
+/**
+ * Get Subscription Tool
+ * 
+ * Retrieves the details and status of a subscription.
+ */
+const getSubscription: Tool = {
+  name: 'get_subscription',
+  description: 'Get the details and status of a subscription',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscription_id: { type: 'string' },
+    },
+    required: ['subscription_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting subscription: ${args.subscription_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/billing/subscriptions/${args.subscription_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get subscription ${args.subscription_id}:`, error);
+      throw toPayPalError(error, `Failed to get subscription ${args.subscription_id}`);
+    }
+  },
+};
+
+/**
+ * Suspend Subscription Tool
+ * 
+ * Temporarily suspends billing for an active subscription.
+ */
+const suspendSubscription: Tool = {
+  name: 'suspend_subscription',
+  description: 'Suspend an active subscription',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscription_id: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['subscription_id', 'reason'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    logger.info(`Suspending subscription: ${args.subscription_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { subscription_id, idempotency_key, ...payload } = args;
+    
+    try {
+      await axios.post(`/v1/billing/subscriptions/${subscription_id}/suspend`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { success: true, subscription_id, status: 'SUSPENDED' };
+    } catch (error) {
+      logger.error(`Failed to suspend subscription ${subscription_id}:`, error);
+      throw toPayPalError(error, `Failed to suspend subscription ${subscription_id}`);
+    }
+  },
+};
+
+/**
+ * Activate Subscription Tool
+ * 
+ * Reactivates a suspended subscription.
+ */
+const activateSubscription: Tool = {
+  name: 'activate_subscription',
+  description: 'Activate a suspended subscription',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscription_id: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['subscription_id'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    logger.info(`Activating subscription: ${args.subscription_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { subscription_id, idempotency_key, ...payload } = args;
+    
+    try {
+      await axios.post(`/v1/billing/subscriptions/${subscription_id}/activate`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { success: true, subscription_id, status: 'ACTIVE' };
+    } catch (error) {
+      logger.error(`Failed to activate subscription ${subscription_id}:`, error);
+      throw toPayPalError(error, `Failed to activate subscription ${subscription_id}`);
+    }
+  },
+};
+
+/**
+ * Cancel Subscription Tool
+ * 
+ * Permanently cancels a subscription. A cancelled subscription cannot be reactivated.
+ */
+const cancelSubscription: Tool = {
+  name: 'cancel_subscription',
+  description: 'Cancel a subscription',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscription_id: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['subscription_id', 'reason'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    logger.info(`Cancelling subscription: ${args.subscription_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { subscription_id, idempotency_key, ...payload } = args;
+    
+    try {
+      await axios.post(`/v1/billing/subscriptions/${subscription_id}/cancel`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return { success: true, subscription_id, status: 'CANCELLED' };
+    } catch (error) {
+      logger.error(`Failed to cancel subscription ${subscription_id}:`, error);
+      throw toPayPalError(error, `Failed to cancel subscription ${subscription_id}`);
+    }
+  },
+};
+
+/**
+ * Revise Subscription Tool
+ * 
+ * Changes the plan or quantity of a subscription. The subscriber may need to
+ * approve the change using the returned approval link.
+ */
+const reviseSubscription: Tool = {
+  name: 'revise_subscription',
+  description: 'Change the plan or quantity of a subscription',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscription_id: { type: 'string' },
+      plan_id: { type: 'string' },
+      quantity: { type: 'string' },
+      effective_time: { type: 'string', format: 'date-time' },
+      shipping_amount: {
+        type: 'object',
+        properties: {
+          currency_code: { type: 'string' },
+          value: { type: 'string' },
+        },
+        required: ['currency_code', 'value'],
+      },
+      application_context: { type: 'object' },
+    },
+    required: ['subscription_id'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Revising subscription: ${args.subscription_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { subscription_id, idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post(`/v1/billing/subscriptions/${subscription_id}/revise`, payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to revise subscription ${subscription_id}:`, error);
+      throw toPayPalError(error, `Failed to revise subscription ${subscription_id}`);
+    }
+  },
+};
+
+/**
+ * List Subscription Transactions Tool
+ * 
+ * Lists the transactions of a subscription within a time range.
+ */
+const listSubscriptionTransactions: Tool = {
+  name: 'list_subscription_transactions',
+  description: 'List the transactions of a subscription within a time range',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      subscription_id: { type: 'string' },
+      start_time: { type: 'string', format: 'date-time' },
+      end_time: { type: 'string', format: 'date-time' },
+    },
+    required: ['subscription_id', 'start_time', 'end_time'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Listing transactions for subscription: ${args.subscription_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { subscription_id, ...params } = args;
+    
+    try {
+      const response = await axios.get(`/v1/billing/subscriptions/${subscription_id}/transactions`, { params });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to list transactions for subscription ${subscription_id}:`, error);
+      throw toPayPalError(error, `Failed to list transactions for subscription ${subscription_id}`);
     }
   },
 };
@@ -260,8 +1596,38 @@ const createSubscription: Tool = {
  */
 export const paymentTools: Tool[] = [
   createPaymentToken,
+  createSetupToken,
+  getSetupToken,
+  createPaymentTokenFromSetupToken,
+  listPaymentTokens,
+  getPaymentToken,
+  deletePaymentToken,
   createOrder,
   captureOrder,
+  getOrder,
+  updateOrder,
+  authorizeOrder,
+  confirmPaymentSource,
+  addTracking,
+  addTrackingBulk,
+  updateTracking,
+  getAuthorization,
+  captureAuthorization,
+  reauthorizeAuthorization,
+  voidAuthorization,
+  refundCapture,
+  getRefund,
   createPayment,
+  executePayment,
+  getPayment,
+  listPayments,
+  getSale,
+  refundSale,
   createSubscription,
+  getSubscription,
+  suspendSubscription,
+  activateSubscription,
+  cancelSubscription,
+  reviseSubscription,
+  listSubscriptionTransactions,
 ];
@@ -0,0 +1,98 @@
+import { PayPalAuthService } from '../services/auth.service.js';
+import { reportingTools } from './reporting.tools.js';
+
+const searchTransactions = reportingTools.find(tool => tool.name === 'search_transactions')!;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Auth service whose axios instance answers transaction searches with the
+ * given number of pages per window
+ */
+function createAuthService(totalPages = 1) {
+  const get = jest.fn(async (_url: string, options: any) => ({
+    data: {
+      transaction_details: [{ transaction_info: { transaction_id: `${options.params.start_date}-${options.params.page}` } }],
+      total_pages: totalPages,
+    },
+  }));
+  const authService = { getAxiosInstance: () => ({ get }) } as unknown as PayPalAuthService;
+  const windows = () => get.mock.calls
+    .filter(call => (call as any[])[1].params.page === 1)
+    .map(call => ({ start_date: (call as any[])[1].params.start_date, end_date: (call as any[])[1].params.end_date }));
+  return { authService, get, windows };
+}
+
+describe('search_transactions', () => {
+  it('sends a range of up to 31 days as a single query', async () => {
+    const { authService, get } = createAuthService();
+    
+    const result = await searchTransactions.handler({
+      start_date: '2024-01-01T00:00:00Z',
+      end_date: '2024-02-01T00:00:00Z',
+      transaction_status: 'S',
+    }, authService);
+    
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledWith('/v1/reporting/transactions', {
+      params: {
+        fields: 'all',
+        transaction_status: 'S',
+        start_date: '2024-01-01T00:00:00Z',
+        end_date: '2024-02-01T00:00:00Z',
+        page: 1,
+      },
+    });
+    expect(result).toMatchObject({ windows: 1, pages_fetched: 1, truncated: false, total_items: 1 });
+  });
+  
+  it('splits longer ranges into consecutive windows of at most 31 days', async () => {
+    const { authService, windows } = createAuthService();
+    
+    const result = await searchTransactions.handler({
+      start_date: '2024-01-01T00:00:00.000Z',
+      end_date: '2024-03-15T12:30:00.000Z',
+    }, authService);
+    
+    expect(windows()).toEqual([
+      { start_date: '2024-01-01T00:00:00Z', end_date: '2024-01-31T23:59:59Z' },
+      { start_date: '2024-02-01T00:00:00Z', end_date: '2024-03-02T23:59:59Z' },
+      { start_date: '2024-03-03T00:00:00Z', end_date: '2024-03-15T12:30:00Z' },
+    ]);
+    for (const window of windows()) {
+      expect(Date.parse(window.end_date) - Date.parse(window.start_date)).toBeLessThanOrEqual(31 * DAY_MS);
+    }
+    expect(result).toMatchObject({ windows: 3, pages_fetched: 3, total_items: 3 });
+  });
+  
+  it('follows every page of each window and merges the results', async () => {
+    const { authService, get } = createAuthService(2);
+    
+    const result = await searchTransactions.handler({
+      start_date: '2024-01-01T00:00:00Z',
+      end_date: '2024-02-15T00:00:00Z',
+    }, authService);
+    
+    expect(get.mock.calls.map(call => (call as any[])[1].params.page)).toEqual([1, 2, 1, 2]);
+    expect(result.transaction_details.map((detail: any) => detail.transaction_info.transaction_id)).toEqual([
+      '2024-01-01T00:00:00Z-1',
+      '2024-01-01T00:00:00Z-2',
+      '2024-02-01T00:00:00Z-1',
+      '2024-02-01T00:00:00Z-2',
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+  
+  it('stops at max_pages across windows and reports the result as truncated', async () => {
+    const { authService, get } = createAuthService(2);
+    
+    const result = await searchTransactions.handler({
+      start_date: '2024-01-01T00:00:00Z',
+      end_date: '2024-04-01T00:00:00Z',
+      max_pages: 3,
+    }, authService);
+    
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({ windows: 3, pages_fetched: 3, truncated: true, total_items: 3 });
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Reporting tools for PayPal MCP Server
+ * 
+ * Implements reporting-related tools for the MCP server.
+ */
+
+import { AxiosInstance } from 'axios';
+import { PayPalAuthService } from '../services/auth.service.js';
+import { logger } from '../utils/logger.js';
+import { toPayPalError } from '../utils/errors.js';
+import {
+  AccountMapping,
+  EXPORT_MIME_TYPES,
+  ExportFormat,
+  renderCsv,
+  renderIif,
+  renderOfx,
+  toLedgerEntries,
+} from '../utils/accounting.js';
+import { textResource } from '../utils/content.js';
+
+/**
+ * Tool definition interface
+ */
+interface Tool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  handler: (args: any, authService: PayPalAuthService) => Promise<any>;
+}
+
+/**
+ * The Transaction Search API rejects date ranges longer than 31 days
+ */
+const MAX_SEARCH_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+
+/**
+ * Number of pages fetched when the caller does not set a limit
+ */
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Format a date the way the Reporting API expects, without milliseconds
+ */
+function formatReportingDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Split a date range into consecutive windows the Reporting API accepts
+ */
+function splitDateRange(startDate: string, endDate: string): { start_date: string; end_date: string }[] {
+  const windows = [];
+  const end = new Date(endDate).getTime();
+  let start = new Date(startDate).getTime();
+  
+  // Full windows end a second before the next one starts, so no second is
+  // searched twice or skipped
+  while (end - start > MAX_SEARCH_WINDOW_MS) {
+    const windowEnd = start + MAX_SEARCH_WINDOW_MS - 1000;
+    windows.push({
+      start_date: formatReportingDate(new Date(start)),
+      end_date: formatReportingDate(new Date(windowEnd)),
+    });
+    start = windowEnd + 1000;
+  }
+  
+  windows.push({
+    start_date: formatReportingDate(new Date(start)),
+    end_date: formatReportingDate(new Date(end)),
+  });
+  
+  return windows;
+}
+
+/**
+ * Search transactions across any date range, following pages up to a limit
+ */
+async function searchTransactions(axios: AxiosInstance, args: any): Promise<any> {
+  const { start_date, end_date, max_pages = DEFAULT_MAX_PAGES, ...filters } = args;
+  const windows = splitDateRange(start_date, end_date);
+  const transactions: any[] = [];
+  let pagesFetched = 0;
+  let truncated = false;
+  
+  for (const window of windows) {
+    let page = 1;
+    let totalPages = 1;
+    
+    while (page <= totalPages) {
+      if (pagesFetched >= max_pages) {
+        truncated = true;
+        break;
+      }
+      
+      const response = await axios.get('/v1/reporting/transactions', {
+        params: { fields: 'all', ...filters, ...window, page },
+      });
+      
+      transactions.push(...(response.data.transaction_details || []));
+      totalPages = response.data.total_pages || 1;
+      pagesFetched++;
+      page++;
+    }
+    
+    if (truncated) {
+      break;
+    }
+  }
+  
+  return {
+    start_date,
+    end_date,
+    windows: windows.length,
+    pages_fetched: pagesFetched,
+    truncated,
+    total_items: transactions.length,
+    transaction_details: transactions,
+  };
+}
+
+/**
+ * Search Transactions Tool
+ * 
+ * Searches the account's transaction history. Ranges longer than 31 days are
+ * split into several queries and the results merged.
+ */
+const searchTransactionsTool: Tool = {
+  name: 'search_transactions',
+  description: 'Search transaction history by date range, status, amount and transaction ID',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      start_date: { type: 'string', format: 'date-time' },
+      end_date: { type: 'string', format: 'date-time' },
+      transaction_id: { type: 'string' },
+      transaction_status: {
+        type: 'string',
+        enum: ['D', 'P', 'S', 'V'],
+        description: 'D = denied, P = pending, S = successful, V = reversed',
+      },
+      transaction_amount: { type: 'string', description: 'Gross amount range in minor units, e.g. "500 TO 1005"' },
+      transaction_currency: { type: 'string' },
+      transaction_type: { type: 'string' },
+      fields: { type: 'string' },
+      page_size: { type: 'number' },
+      max_pages: { type: 'number', description: 'Maximum number of pages to fetch across the whole range' },
+    },
+    required: ['start_date', 'end_date'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Searching transactions from ${args.start_date} to ${args.end_date}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      return await searchTransactions(axios, args);
+    } catch (error) {
+      logger.error('Failed to search transactions:', error);
+      throw toPayPalError(error, 'Failed to search transactions');
+    }
+  },
+};
+
+/**
+ * Get Balances Tool
+ * 
+ * Retrieves the account's available, withheld and total balance in each
+ * currency, either now or as of a given time.
+ */
+const getBalances: Tool = {
+  name: 'get_balances',
+  description: 'Get the available, withheld and total account balance for each currency',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      as_of_time: { type: 'string', format: 'date-time' },
+      currency_code: { type: 'string' },
+    },
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting balances${args.as_of_time ? ` as of ${args.as_of_time}` : ''}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v1/reporting/balances', { params: args });
+      return {
+        account_id: response.data.account_id,
+        as_of_time: response.data.as_of_time,
+        last_refresh_time: response.data.last_refresh_time,
+        balances: (response.data.balances || []).map((balance: any) => ({
+          currency: balance.currency,
+          primary: balance.primary,
+          available: balance.available_balance?.value,
+          withheld: balance.withheld_balance?.value,
+          total: balance.total_balance?.value,
+        })),
+      };
+    } catch (error) {
+      logger.error('Failed to get balances:', error);
+      throw toPayPalError(error, 'Failed to get balances');
+    }
+  },
+};
+
+/**
+ * Default ledger accounts used when the caller does not map them
+ */
+const DEFAULT_ACCOUNTS: AccountMapping = {
+  gross: 'Sales',
+  fee: 'PayPal Fees',
+  net: 'PayPal',
+};
+
+/**
+ * Export Transactions Tool
+ * 
+ * Exports the transactions in a date range for accounting software. The file
+ * is returned as an embedded text resource rather than a JSON result.
+ */
+const exportTransactions: Tool = {
+  name: 'export_transactions',
+  description: 'Export transactions in a date range as CSV, OFX or QuickBooks IIF with gross, fee and net mapped to ledger accounts',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      start_date: { type: 'string', format: 'date-time' },
+      end_date: { type: 'string', format: 'date-time' },
+      format: { type: 'string', enum: ['csv', 'ofx', 'iif'] },
+      transaction_status: { type: 'string', enum: ['D', 'P', 'S', 'V'] },
+      transaction_currency: { type: 'string' },
+      accounts: {
+        type: 'object',
+        properties: {
+          gross: { type: 'string', description: 'Account for gross amounts (default "Sales")' },
+          fee: { type: 'string', description: 'Account for PayPal fees (default "PayPal Fees")' },
+          net: { type: 'string', description: 'Account that receives the net amount (default "PayPal")' },
+          event_accounts: {
+            type: 'object',
+            description: 'Gross account overrides keyed by PayPal transaction event code, e.g. { "T1107": "Refunds" }',
+            additionalProperties: { type: 'string' },
+          },
+        },
+      },
+      max_pages: { type: 'number' },
+    },
+    required: ['start_date', 'end_date', 'format'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Exporting transactions from ${args.start_date} to ${args.end_date} as ${args.format}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { format, accounts: accountOverrides, ...searchArgs } = args;
+    const accounts: AccountMapping = { ...DEFAULT_ACCOUNTS, ...accountOverrides };
+    
+    let search;
+    try {
+      search = await searchTransactions(axios, searchArgs);
+    } catch (error) {
+      logger.error('Failed to export transactions:', error);
+      throw toPayPalError(error, 'Failed to export transactions');
+    }
+    
+    const entries = toLedgerEntries(search.transaction_details, accounts);
+    const startDate = new Date(args.start_date);
+    const endDate = new Date(args.end_date);
+    
+    const renderers: Record<ExportFormat, () => string> = {
+      csv: () => renderCsv(entries, accounts),
+      ofx: () => renderOfx(entries, accounts, startDate, endDate),
+      iif: () => renderIif(entries, accounts),
+    };
+    
+    const fileName = `transactions-${formatReportingDate(startDate)}-${formatReportingDate(endDate)}.${format}`;
+    const summary = `Exported ${entries.length} transactions from ${args.start_date} to ${args.end_date} as ${format.toUpperCase()}`
+      + (search.truncated ? ` (truncated after ${search.pages_fetched} pages; raise max_pages or narrow the range)` : '');
+    
+    return textResource(
+      summary,
+      `paypal://exports/${fileName.replace(/:/g, '')}`,
+      EXPORT_MIME_TYPES[format as ExportFormat],
+      renderers[format as ExportFormat]()
+    );
+  },
+};
+
+/**
+ * Export all reporting tools
+ */
+export const reportingTools: Tool[] = [
+  searchTransactionsTool,
+  getBalances,
+  exportTransactions,
+];
@@ -6,6 +6,7 @@
 
 import { PayPalAuthService } from '../services/auth.service.js';
 import { logger } from '../utils/logger.js';
+import { toPayPalError } from '../utils/errors.js';
 
 /**
  * Tool definition interface
@@ -15,6 +16,7 @@ interface Tool {
   description: string;
   inputSchema: Record<string, any>;
   handler: (args: any, authService: PayPalAuthService) => Promise<any>;
+  idempotent?: boolean;
 }
 
 /**
@@ -40,7 +42,7 @@ const getUserInfo: Tool = {
       return response.data;
     } catch (error) {
       logger.error('Failed to get user information:', error);
-      throw new Error('Failed to get user information');
+      throw toPayPalError(error, 'Failed to get user information');
     }
   },
 };
@@ -64,17 +66,21 @@ const createWebProfile: Tool = {
     },
     required: ['name'],
   },
+  idempotent: true,
   handler: async (args, authService) => {
     logger.info('Creating web profile');
     
     const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
     
     try {
-      const response = await axios.post('/v1/payment-experience/web-profiles', args);
+      const response = await axios.post('/v1/payment-experience/web-profiles', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
       return response.data;
     } catch (error) {
       logger.error('Failed to create web profile:', error);
-      throw new Error('Failed to create web profile');
+      throw toPayPalError(error, 'Failed to create web profile');
     }
   },
 };
@@ -102,7 +108,7 @@ const getWebProfiles: Tool = {
       return response.data;
     } catch (error) {
       logger.error('Failed to get web profiles:', error);
-      throw new Error('Failed to get web profiles');
+      throw toPayPalError(error, 'Failed to get web profiles');
     }
   },
 };
@@ -132,7 +138,7 @@ const getWebProfile: Tool = {
       return response.data;
     } catch (error) {
       logger.error(`Failed to get web profile ${args.profile_id}:`, error);
-      throw new Error(`Failed to get web profile ${args.profile_id}`);
+      throw toPayPalError(error, `Failed to get web profile ${args.profile_id}`);
     }
   },
 };
@@ -167,7 +173,7 @@ const updateWebProfile: Tool = {
       return response.data || { success: true, profile_id };
     } catch (error) {
       logger.error(`Failed to update web profile ${profile_id}:`, error);
-      throw new Error(`Failed to update web profile ${profile_id}`);
+      throw toPayPalError(error, `Failed to update web profile ${profile_id}`);
     }
   },
 };
@@ -197,7 +203,7 @@ const deleteWebProfile: Tool = {
       return { success: true, profile_id: args.profile_id };
     } catch (error) {
       logger.error(`Failed to delete web profile ${args.profile_id}:`, error);
-      throw new Error(`Failed to delete web profile ${args.profile_id}`);
+      throw toPayPalError(error, `Failed to delete web profile ${args.profile_id}`);
     }
   },
 };
@@ -0,0 +1,370 @@
+/**
+ * Webhook tools for PayPal MCP Server
+ * 
+ * Implements webhook-related tools for the MCP server.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PayPalAuthService } from '../services/auth.service.js';
+import { webhookEventStore } from '../services/event-store.service.js';
+import { logger } from '../utils/logger.js';
+import { toPayPalError } from '../utils/errors.js';
+import { config } from '../config.js';
+
+/**
+ * Tool definition interface
+ */
+interface Tool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  handler: (args: any, authService: PayPalAuthService) => Promise<any>;
+  idempotent?: boolean;
+  repeatable?: boolean; // Identical calls are deliberate repeats, so no key is derived from the arguments
+}
+
+const eventTypesInputSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+    },
+    required: ['name'],
+  },
+};
+
+/**
+ * Create Webhook Tool
+ * 
+ * Subscribes an HTTPS endpoint to webhook events for the current environment.
+ */
+const createWebhook: Tool = {
+  name: 'create_webhook',
+  description: 'Subscribe an HTTPS endpoint to PayPal webhook events',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', format: 'uri' },
+      event_types: eventTypesInputSchema,
+    },
+    required: ['url', 'event_types'],
+  },
+  idempotent: true,
+  handler: async (args, authService) => {
+    logger.info(`Creating ${config.paypal.environment} webhook for: ${args.url}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post('/v1/notifications/webhooks', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to create webhook for ${args.url}:`, error);
+      throw toPayPalError(error, `Failed to create webhook for ${args.url}`);
+    }
+  },
+};
+
+/**
+ * List Webhooks Tool
+ * 
+ * Lists the webhooks registered for the app or account.
+ */
+const listWebhooks: Tool = {
+  name: 'list_webhooks',
+  description: 'List registered webhooks',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      anchor_type: { type: 'string', enum: ['APPLICATION', 'ACCOUNT'] },
+    },
+  },
+  handler: async (args, authService) => {
+    logger.info('Listing webhooks');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v1/notifications/webhooks', { params: args });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to list webhooks:', error);
+      throw toPayPalError(error, 'Failed to list webhooks');
+    }
+  },
+};
+
+/**
+ * Get Webhook Tool
+ * 
+ * Retrieves a webhook and its subscribed event types.
+ */
+const getWebhook: Tool = {
+  name: 'get_webhook',
+  description: 'Get a webhook and its subscribed event types',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      webhook_id: { type: 'string' },
+    },
+    required: ['webhook_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Getting webhook: ${args.webhook_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get(`/v1/notifications/webhooks/${args.webhook_id}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to get webhook ${args.webhook_id}:`, error);
+      throw toPayPalError(error, `Failed to get webhook ${args.webhook_id}`);
+    }
+  },
+};
+
+/**
+ * Update Webhook Tool
+ * 
+ * Replaces the URL or subscribed event types of a webhook using JSON Patch operations.
+ */
+const updateWebhook: Tool = {
+  name: 'update_webhook',
+  description: 'Update the URL or event types of a webhook using JSON Patch operations',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      webhook_id: { type: 'string' },
+      operations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            op: { type: 'string', enum: ['replace'] },
+            path: { type: 'string', enum: ['/url', '/event_types'] },
+            value: {},
+          },
+          required: ['op', 'path', 'value'],
+        },
+      },
+    },
+    required: ['webhook_id', 'operations'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Updating webhook: ${args.webhook_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { webhook_id, operations } = args;
+    
+    try {
+      const response = await axios.patch(`/v1/notifications/webhooks/${webhook_id}`, operations);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to update webhook ${webhook_id}:`, error);
+      throw toPayPalError(error, `Failed to update webhook ${webhook_id}`);
+    }
+  },
+};
+
+/**
+ * Delete Webhook Tool
+ * 
+ * Deletes a webhook so its endpoint stops receiving events.
+ */
+const deleteWebhook: Tool = {
+  name: 'delete_webhook',
+  description: 'Delete a webhook',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      webhook_id: { type: 'string' },
+    },
+    required: ['webhook_id'],
+  },
+  handler: async (args, authService) => {
+    logger.info(`Deleting webhook: ${args.webhook_id}`);
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      await axios.delete(`/v1/notifications/webhooks/${args.webhook_id}`);
+      return { success: true, webhook_id: args.webhook_id };
+    } catch (error) {
+      logger.error(`Failed to delete webhook ${args.webhook_id}:`, error);
+      throw toPayPalError(error, `Failed to delete webhook ${args.webhook_id}`);
+    }
+  },
+};
+
+/**
+ * List Webhook Event Types Tool
+ * 
+ * Lists the event types that webhooks can subscribe to.
+ */
+const listWebhookEventTypes: Tool = {
+  name: 'list_webhook_event_types',
+  description: 'List the event types available for webhook subscriptions',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false,
+  },
+  handler: async (_args, authService) => {
+    logger.info('Listing webhook event types');
+    
+    const axios = authService.getAxiosInstance();
+    
+    try {
+      const response = await axios.get('/v1/notifications/webhooks-event-types');
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to list webhook event types:', error);
+      throw toPayPalError(error, 'Failed to list webhook event types');
+    }
+  },
+};
+
+/**
+ * Simulate Webhook Event Tool
+ * 
+ * Sends a sample event to a webhook or URL. PayPal only supports this in the sandbox.
+ */
+const simulateWebhookEvent: Tool = {
+  name: 'simulate_webhook_event',
+  description: 'Send a sample webhook event to a webhook or URL (sandbox only)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      webhook_id: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      event_type: { type: 'string' },
+      resource_version: { type: 'string' },
+    },
+    required: ['event_type'],
+  },
+  idempotent: true,
+  repeatable: true,
+  handler: async (args, authService) => {
+    if (config.paypal.environment !== 'sandbox') {
+      throw new McpError(ErrorCode.InvalidRequest, 'Webhook events can only be simulated in the sandbox environment');
+    }
+    
+    logger.info(`Simulating webhook event: ${args.event_type}`);
+    
+    const axios = authService.getAxiosInstance();
+    const { idempotency_key, ...payload } = args;
+    
+    try {
+      const response = await axios.post('/v1/notifications/simulate-event', payload, {
+        headers: { 'PayPal-Request-Id': idempotency_key },
+      });
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to simulate webhook event ${args.event_type}:`, error);
+      throw toPayPalError(error, `Failed to simulate webhook event ${args.event_type}`);
+    }
+  },
+};
+
+/**
+ * List Webhook Events Tool
+ * 
+ * Lists verified webhook events stored by the built-in webhook receiver, newest first.
+ */
+const listWebhookEvents: Tool = {
+  name: 'list_webhook_events',
+  description: 'List webhook events received by the built-in webhook receiver, newest first',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      event_type: { type: 'string' },
+      resource_type: { type: 'string' },
+      resource_id: { type: 'string' },
+      since: { type: 'string', format: 'date-time' },
+      limit: { type: 'number' },
+    },
+  },
+  handler: async (args) => {
+    logger.info('Listing received webhook events');
+    
+    try {
+      const records = await webhookEventStore.list(args);
+      return {
+        receiver_enabled: config.webhooks.listenerPort > 0,
+        events: records.map(record => ({
+          id: record.event.id,
+          event_type: record.event.event_type,
+          resource_type: record.event.resource_type,
+          resource_id: record.event.resource?.id,
+          summary: record.event.summary,
+          create_time: record.event.create_time,
+          received_at: record.received_at,
+        })),
+      };
+    } catch (error) {
+      // The events are read from the local store, so this is not a PayPal error
+      logger.error('Failed to list received webhook events:', error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read webhook event store: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
+
+/**
+ * Get Webhook Event Tool
+ * 
+ * Retrieves a verified webhook event stored by the built-in webhook receiver.
+ */
+const getWebhookEvent: Tool = {
+  name: 'get_webhook_event',
+  description: 'Get a webhook event received by the built-in webhook receiver',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      event_id: { type: 'string' },
+    },
+    required: ['event_id'],
+  },
+  handler: async (args) => {
+    logger.info(`Getting received webhook event: ${args.event_id}`);
+    
+    let record;
+    try {
+      record = await webhookEventStore.get(args.event_id);
+    } catch (error) {
+      logger.error(`Failed to get received webhook event ${args.event_id}:`, error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read webhook event store: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    
+    if (!record) {
+      throw new McpError(ErrorCode.InvalidParams, `Webhook event not found: ${args.event_id}`);
+    }
+    
+    return record;
+  },
+};
+
+/**
+ * Export all webhook tools
+ */
+export const webhookTools: Tool[] = [
+  createWebhook,
+  listWebhooks,
+  getWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listWebhookEventTypes,
+  simulateWebhookEvent,
+  listWebhookEvents,
+  getWebhookEvent,
+];
@@ -0,0 +1,164 @@
+import { AccountMapping, renderCsv, renderIif, renderOfx, toLedgerEntries } from './accounting.js';
+
+const accounts: AccountMapping = {
+  gross: 'Sales',
+  fee: 'PayPal Fees',
+  net: 'PayPal',
+  event_accounts: { T1107: 'Refunds' },
+};
+
+const transactions = [
+  {
+    transaction_info: {
+      transaction_id: 'SALE1',
+      transaction_event_code: 'T0006',
+      transaction_initiation_date: '2024-03-05T10:20:30+0000',
+      transaction_amount: { currency_code: 'USD', value: '100.00' },
+      fee_amount: { currency_code: 'USD', value: '-3.20' },
+      transaction_subject: 'Order "A", 2 units & <more>',
+    },
+    payer_info: { payer_name: { alternate_full_name: 'Jane\tDoe' } },
+  },
+  {
+    transaction_info: {
+      transaction_id: 'REFUND1',
+      transaction_event_code: 'T1107',
+      transaction_initiation_date: '2024-03-06T00:00:00+0000',
+      transaction_amount: { currency_code: 'USD', value: '-50.00' },
+      fee_amount: { currency_code: 'USD', value: '1.50' },
+      transaction_note: 'Partial\nrefund',
+    },
+    payer_info: { email_address: 'jane@example.com' },
+  },
+  {
+    transaction_info: {
+      transaction_id: 'EUR1',
+      transaction_event_code: 'T0006',
+      transaction_initiation_date: '2024-03-07T00:00:00+0000',
+      transaction_amount: { currency_code: 'EUR', value: '20.00' },
+    },
+  },
+  {
+    transaction_info: {
+      transaction_id: 'JPY1',
+      transaction_event_code: 'T0006',
+      transaction_initiation_date: '2024-03-08T00:00:00+0000',
+      transaction_amount: { currency_code: 'JPY', value: '1500' },
+      fee_amount: { currency_code: 'JPY', value: '-55' },
+    },
+  },
+  // Transactions without an amount, such as holds, are not ledger entries
+  { transaction_info: { transaction_id: 'HOLD1' } },
+];
+
+const entries = toLedgerEntries(transactions, accounts);
+
+describe('toLedgerEntries', () => {
+  it('splits transactions into gross, fee and net in minor units', () => {
+    expect(entries.map(({ transaction_id, gross, fee, net, gross_account }) => ({ transaction_id, gross, fee, net, gross_account }))).toEqual([
+      { transaction_id: 'SALE1', gross: 10000, fee: -320, net: 9680, gross_account: 'Sales' },
+      { transaction_id: 'REFUND1', gross: -5000, fee: 150, net: -4850, gross_account: 'Refunds' },
+      { transaction_id: 'EUR1', gross: 2000, fee: 0, net: 2000, gross_account: 'Sales' },
+      { transaction_id: 'JPY1', gross: 1500, fee: -55, net: 1445, gross_account: 'Sales' },
+    ]);
+  });
+});
+
+describe('renderCsv', () => {
+  it('writes gross, fee and net rows with signed amounts and quotes fields that need it', () => {
+    const lines = renderCsv(entries, accounts).split('\r\n');
+    
+    expect(lines).toEqual([
+      'date,transaction_id,event_code,description,counterparty,line,account,currency,amount',
+      '2024-03-05T10:20:30.000Z,SALE1,T0006,"Order ""A"", 2 units & <more>",Jane\tDoe,GROSS,Sales,USD,100.00',
+      '2024-03-05T10:20:30.000Z,SALE1,T0006,"Order ""A"", 2 units & <more>",Jane\tDoe,FEE,PayPal Fees,USD,-3.20',
+      '2024-03-05T10:20:30.000Z,SALE1,T0006,"Order ""A"", 2 units & <more>",Jane\tDoe,NET,PayPal,USD,96.80',
+      '2024-03-06T00:00:00.000Z,REFUND1,T1107,"Partial\nrefund",jane@example.com,GROSS,Refunds,USD,-50.00',
+      '2024-03-06T00:00:00.000Z,REFUND1,T1107,"Partial\nrefund",jane@example.com,FEE,PayPal Fees,USD,1.50',
+      '2024-03-06T00:00:00.000Z,REFUND1,T1107,"Partial\nrefund",jane@example.com,NET,PayPal,USD,-48.50',
+      '2024-03-07T00:00:00.000Z,EUR1,T0006,,,GROSS,Sales,EUR,20.00',
+      '2024-03-07T00:00:00.000Z,EUR1,T0006,,,NET,PayPal,EUR,20.00',
+      '2024-03-08T00:00:00.000Z,JPY1,T0006,,,GROSS,Sales,JPY,1500',
+      '2024-03-08T00:00:00.000Z,JPY1,T0006,,,FEE,PayPal Fees,JPY,-55',
+      '2024-03-08T00:00:00.000Z,JPY1,T0006,,,NET,PayPal,JPY,1445',
+      '',
+    ]);
+  });
+});
+
+describe('renderOfx', () => {
+  const ofx = renderOfx(entries, accounts, new Date('2024-03-01T00:00:00Z'), new Date('2024-03-31T23:59:59Z'));
+  const statements = ofx.split('<STMTTRNRS>').slice(1);
+  const transactionsOf = (statement: string) => [...statement.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/g)].map(match => ({
+    type: /<TRNTYPE>(.*)<\/TRNTYPE>/.exec(match[1])![1],
+    amount: /<TRNAMT>(.*)<\/TRNAMT>/.exec(match[1])![1],
+    id: /<FITID>(.*)<\/FITID>/.exec(match[1])![1],
+  }));
+  
+  it('writes one statement per currency', () => {
+    expect(statements.map(statement => /<CURDEF>(.*)<\/CURDEF>/.exec(statement)![1])).toEqual(['USD', 'EUR', 'JPY']);
+    expect(statements[0]).toContain('<ACCTID>PayPal-USD</ACCTID>');
+    expect(statements[0]).toContain('<DTSTART>20240301000000[0:GMT]</DTSTART>');
+    expect(statements[0]).toContain('<DTEND>20240331235959[0:GMT]</DTEND>');
+  });
+  
+  it('posts gross and fee as credits or debits by sign and balances to the net total', () => {
+    expect(transactionsOf(statements[0])).toEqual([
+      { type: 'CREDIT', amount: '100.00', id: 'SALE1' },
+      { type: 'DEBIT', amount: '-3.20', id: 'SALE1-FEE' },
+      { type: 'DEBIT', amount: '-50.00', id: 'REFUND1' },
+      { type: 'CREDIT', amount: '1.50', id: 'REFUND1-FEE' },
+    ]);
+    expect(statements[0]).toContain('<BALAMT>48.30</BALAMT>');
+    expect(transactionsOf(statements[1])).toEqual([{ type: 'CREDIT', amount: '20.00', id: 'EUR1' }]);
+    expect(statements[1]).toContain('<BALAMT>20.00</BALAMT>');
+    expect(transactionsOf(statements[2])).toEqual([
+      { type: 'CREDIT', amount: '1500', id: 'JPY1' },
+      { type: 'DEBIT', amount: '-55', id: 'JPY1-FEE' },
+    ]);
+    expect(statements[2]).toContain('<BALAMT>1445</BALAMT>');
+  });
+  
+  it('escapes XML special characters and falls back to the account name', () => {
+    expect(statements[0]).toContain('<MEMO>Order "A", 2 units &amp; &lt;more&gt;</MEMO>');
+    expect(statements[0]).toContain('<NAME>Jane\tDoe</NAME>');
+    expect(statements[1]).toContain('<NAME>Sales</NAME>');
+  });
+});
+
+describe('renderIif', () => {
+  const lines = renderIif(entries, accounts).split('\r\n');
+  
+  it('writes balanced general journal transactions', () => {
+    expect(lines.slice(3)).toEqual([
+      'TRNS\t\tGENERAL JOURNAL\t03/05/2024\tPayPal\tJane Doe\t96.80\tSALE1\tOrder "A", 2 units & <more>',
+      'SPL\t\tGENERAL JOURNAL\t03/05/2024\tSales\tJane Doe\t-100.00\tSALE1\tOrder "A", 2 units & <more>',
+      'SPL\t\tGENERAL JOURNAL\t03/05/2024\tPayPal Fees\tJane Doe\t3.20\tSALE1\tFee for SALE1',
+      'ENDTRNS',
+      'TRNS\t\tGENERAL JOURNAL\t03/06/2024\tPayPal\tjane@example.com\t-48.50\tREFUND1\tPartial refund',
+      'SPL\t\tGENERAL JOURNAL\t03/06/2024\tRefunds\tjane@example.com\t50.00\tREFUND1\tPartial refund',
+      'SPL\t\tGENERAL JOURNAL\t03/06/2024\tPayPal Fees\tjane@example.com\t-1.50\tREFUND1\tFee for REFUND1',
+      'ENDTRNS',
+      'TRNS\t\tGENERAL JOURNAL\t03/07/2024\tPayPal\t\t20.00\tEUR1\t',
+      'SPL\t\tGENERAL JOURNAL\t03/07/2024\tSales\t\t-20.00\tEUR1\t',
+      'ENDTRNS',
+      'TRNS\t\tGENERAL JOURNAL\t03/08/2024\tPayPal\t\t1445\tJPY1\t',
+      'SPL\t\tGENERAL JOURNAL\t03/08/2024\tSales\t\t-1500\tJPY1\t',
+      'SPL\t\tGENERAL JOURNAL\t03/08/2024\tPayPal Fees\t\t55\tJPY1\tFee for JPY1',
+      'ENDTRNS',
+      '',
+    ]);
+  });
+  
+  it('balances every transaction to zero', () => {
+    let total = 0;
+    for (const line of lines.slice(3)) {
+      if (line === 'ENDTRNS') {
+        expect(total).toBe(0);
+        total = 0;
+      } else if (line) {
+        total += Math.round(parseFloat(line.split('\t')[6]) * 100);
+      }
+    }
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Accounting export utility for PayPal MCP Server
+ * 
+ * Converts PayPal transaction details into ledger entries and renders them
+ * as CSV, OFX or QuickBooks IIF.
+ */
+
+import { formatMinorUnits, toMinorUnits } from './amount.js';
+import { toCsvRow } from './csv.js';
+
+/**
+ * Accounts that the lines of each transaction are posted to
+ */
+export interface AccountMapping {
+  gross: string;
+  fee: string;
+  net: string;
+  event_accounts?: Record<string, string>;
+}
+
+/**
+ * A single PayPal transaction split into gross, fee and net amounts.
+ * Amounts are held in minor units of the currency to avoid floating point drift.
+ */
+export interface LedgerEntry {
+  transaction_id: string;
+  date: Date;
+  event_code: string;
+  description: string;
+  counterparty: string;
+  currency: string;
+  gross: number;
+  fee: number;
+  net: number;
+  gross_account: string;
+}
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'csv' | 'ofx' | 'iif';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  ofx: 'application/x-ofx',
+  iif: 'application/x-iif',
+};
+
+/**
+ * Convert transaction details from the Transaction Search API into ledger entries
+ */
+export function toLedgerEntries(transactions: any[], accounts: AccountMapping): LedgerEntry[] {
+  return transactions
+    .filter(transaction => transaction.transaction_info?.transaction_amount)
+    .map(transaction => {
+      const info = transaction.transaction_info;
+      const payer = transaction.payer_info || {};
+      const currency = info.transaction_amount.currency_code;
+      const gross = toMinorUnits(info.transaction_amount.value, currency);
+      const fee = toMinorUnits(info.fee_amount?.value, currency);
+
+      return {
+        transaction_id: info.transaction_id,
+        date: new Date(info.transaction_initiation_date),
+        event_code: info.transaction_event_code || '',
+        description: info.transaction_subject || info.transaction_note || '',
+        counterparty: payer.payer_name?.alternate_full_name || payer.email_address || '',
+        currency,
+        gross,
+        fee,
+        net: gross + fee,
+        gross_account: accounts.event_accounts?.[info.transaction_event_code] || accounts.gross,
+      };
+    });
+}
+
+/**
+ * Render ledger entries as CSV with one row each for the gross, fee and net amounts
+ */
+export function renderCsv(entries: LedgerEntry[], accounts: AccountMapping): string {
+  const lines = [
+    toCsvRow(['date', 'transaction_id', 'event_code', 'description', 'counterparty', 'line', 'account', 'currency', 'amount']),
+  ];
+
+  for (const entry of entries) {
+    const common = [
+      entry.date.toISOString(),
+      entry.transaction_id,
+      entry.event_code,
+      entry.description,
+      entry.counterparty,
+    ];
+
+    lines.push(toCsvRow([...common, 'GROSS', entry.gross_account, entry.currency, formatMinorUnits(entry.gross, entry.currency)]));
+    if (entry.fee !== 0) {
+      lines.push(toCsvRow([...common, 'FEE', accounts.fee, entry.currency, formatMinorUnits(entry.fee, entry.currency)]));
+    }
+    lines.push(toCsvRow([...common, 'NET', accounts.net, entry.currency, formatMinorUnits(entry.net, entry.currency)]));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function formatOfxDate(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').replace(/\.\d{3}Z$/, '[0:GMT]');
+}
+
+/**
+ * Render ledger entries as an OFX 2 bank statement, one per currency
+ * 
+ * Gross and fee amounts are separate statement transactions, so the statement
+ * balance moves by the net amount without listing it a third time. The ledger
+ * balance reported is the net movement over the exported period.
+ */
+export function renderOfx(entries: LedgerEntry[], accounts: AccountMapping, startDate: Date, endDate: Date): string {
+  const currencies = [...new Set(entries.map(entry => entry.currency))];
+  const now = formatOfxDate(new Date());
+
+  const statements = currencies.map(currency => {
+    const transactions = entries
+      .filter(entry => entry.currency === currency)
+      .flatMap(entry => {
+        const lines = [
+          { id: entry.transaction_id, amount: entry.gross, name: entry.counterparty || entry.gross_account, memo: entry.description },
+        ];
+        if (entry.fee !== 0) {
+          lines.push({ id: `${entry.transaction_id}-FEE`, amount: entry.fee, name: accounts.fee, memo: `Fee for ${entry.transaction_id}` });
+        }
+        return lines.map(line => [
+          '<STMTTRN>',
+          `<TRNTYPE>${line.amount < 0 ? 'DEBIT' : 'CREDIT'}</TRNTYPE>`,
+          `<DTPOSTED>${formatOfxDate(entry.date)}</DTPOSTED>`,
+          `<TRNAMT>${formatMinorUnits(line.amount, currency)}</TRNAMT>`,
+          `<FITID>${escapeXml(line.id)}</FITID>`,
+          `<NAME>${escapeXml(line.name.slice(0, 32))}</NAME>`,
+          `<MEMO>${escapeXml(line.memo.slice(0, 255))}</MEMO>`,
+          '</STMTTRN>',
+        ].join('\n'));
+      });
+
+    return [
+      '<STMTTRNRS>',
+      '<TRNUID>0</TRNUID>',
+      '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+      '<STMTRS>',
+      `<CURDEF>${currency}</CURDEF>`,
+      '<BANKACCTFROM>',
+      '<BANKID>PAYPAL</BANKID>',
+      `<ACCTID>${escapeXml(accounts.net)}-${currency}</ACCTID>`,
+      '<ACCTTYPE>CHECKING</ACCTTYPE>',
+      '</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      `<DTSTART>${formatOfxDate(startDate)}</DTSTART>`,
+      `<DTEND>${formatOfxDate(endDate)}</DTEND>`,
+      ...transactions,
+      '</BANKTRANLIST>',
+      '<LEDGERBAL>',
+      `<BALAMT>${formatMinorUnits(entries.filter(entry => entry.currency === currency).reduce((sum, entry) => sum + entry.net, 0), currency)}</BALAMT>`,
+      `<DTASOF>${formatOfxDate(endDate)}</DTASOF>`,
+      '</LEDGERBAL>',
+      '</STMTRS>',
+      '</STMTTRNRS>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<DTSERVER>${now}</DTSERVER>`,
+    '<LANGUAGE>ENG</LANGUAGE>',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    ...statements,
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+  ].join('\n') + '\n';
+}
+
+function formatIifDate(date: Date): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${month}/${day}/${date.getUTCFullYear()}`;
+}
+
+function iifField(value: string): string {
+  return value.replace(/[\t\r\n]/g, ' ');
+}
+
+/**
+ * Render ledger entries as QuickBooks IIF general journal transactions
+ * 
+ * The net amount is posted to the PayPal account and split into the gross
+ * amount and the fee, so each transaction balances to zero.
+ */
+export function renderIif(entries: LedgerEntry[], accounts: AccountMapping): string {
+  const lines = [
+    '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+    '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+    '!ENDTRNS',
+  ];
+
+  for (const entry of entries) {
+    const date = formatIifDate(entry.date);
+    const name = iifField(entry.counterparty);
+    const memo = iifField(entry.description);
+
+    lines.push(['TRNS', '', 'GENERAL JOURNAL', date, iifField(accounts.net), name, formatMinorUnits(entry.net, entry.currency), entry.transaction_id, memo].join('\t'));
+    lines.push(['SPL', '', 'GENERAL JOURNAL', date, iifField(entry.gross_account), name, formatMinorUnits(-entry.gross, entry.currency), entry.transaction_id, memo].join('\t'));
+    if (entry.fee !== 0) {
+      lines.push(['SPL', '', 'GENERAL JOURNAL', date, iifField(accounts.fee), name, formatMinorUnits(-entry.fee, entry.currency), entry.transaction_id, `Fee for ${entry.transaction_id}`].join('\t'));
+    }
+    lines.push('ENDTRNS');
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
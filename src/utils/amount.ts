@@ -0,0 +1,45 @@
+/**
+ * Amount utility for PayPal MCP Server
+ * 
+ * Converts PayPal decimal amount strings to integer minor units and back, so
+ * amounts can be added and compared exactly, using the number of decimal
+ * places of each currency.
+ */
+
+/**
+ * Currencies that PayPal only accepts in whole units
+ */
+const ZERO_DECIMAL_CURRENCIES = ['HUF', 'JPY', 'TWD'];
+
+/**
+ * Number of decimal places PayPal uses for a currency
+ * 
+ * @param currencyCode - The three-letter ISO 4217 currency code
+ * @returns The number of decimal places
+ */
+export function getCurrencyDecimals(currencyCode: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currencyCode.toUpperCase()) ? 0 : 2;
+}
+
+/**
+ * Convert a decimal amount string to an integer number of minor units
+ * 
+ * @param value - The amount, e.g. "10.50", or undefined for zero
+ * @param currencyCode - The currency of the amount
+ * @returns The amount in minor units, e.g. 1050 for "10.50" USD
+ */
+export function toMinorUnits(value: string | undefined, currencyCode: string): number {
+  return value ? Math.round(parseFloat(value) * 10 ** getCurrencyDecimals(currencyCode)) : 0;
+}
+
+/**
+ * Format an amount in minor units with the decimal places of its currency
+ * 
+ * @param minorUnits - The amount in minor units
+ * @param currencyCode - The currency of the amount
+ * @returns The decimal amount, e.g. "10.50" for 1050 USD or "1050" for 1050 JPY
+ */
+export function formatMinorUnits(minorUnits: number, currencyCode: string): string {
+  const decimals = getCurrencyDecimals(currencyCode);
+  return (minorUnits / 10 ** decimals).toFixed(decimals);
+}
@@ -0,0 +1,38 @@
+/**
+ * Tool content utility for PayPal MCP Server
+ * 
+ * Lets tool handlers return MCP content directly instead of a JSON result.
+ */
+
+/**
+ * MCP content returned by a tool handler as-is
+ */
+export class ToolContent {
+  constructor(public readonly content: Record<string, any>[]) {}
+}
+
+/**
+ * Create tool content holding a short summary and an embedded text resource
+ * 
+ * @param summary - Human readable summary of the resource
+ * @param uri - The URI identifying the resource
+ * @param mimeType - The MIME type of the resource text
+ * @param text - The resource text
+ * @returns Tool content with the summary and resource
+ */
+export function textResource(summary: string, uri: string, mimeType: string, text: string): ToolContent {
+  return new ToolContent([
+    {
+      type: 'text',
+      text: summary,
+    },
+    {
+      type: 'resource',
+      resource: {
+        uri,
+        mimeType,
+        text,
+      },
+    },
+  ]);
+}
@@ -0,0 +1,73 @@
+/**
+ * CSV utility for PayPal MCP Server
+ * 
+ * Provides small RFC 4180 CSV helpers for tools that read and write spreadsheet data.
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * 
+ * Supports quoted fields containing commas, newlines and escaped quotes ("").
+ * Blank lines are skipped.
+ * 
+ * @param text - The CSV text to parse
+ * @returns The parsed rows
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) {
+    rows.push(row);
+  }
+  
+  return rows;
+}
+
+/**
+ * Format a row of values as a CSV line, quoting fields where needed
+ * 
+ * @param values - The field values for the row
+ * @returns The CSV line without a trailing newline
+ */
+export function toCsvRow(values: (string | number | undefined)[]): string {
+  return values.map(value => {
+    const field = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }).join(',');
+}
@@ -0,0 +1,122 @@
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  PayPalApiError,
+  PayPalAuthenticationError,
+  PayPalNotFoundError,
+  PayPalPermissionError,
+  toPayPalError,
+} from './errors.js';
+
+/**
+ * An axios error for a PayPal response with the given status and body
+ */
+function paypalError(status: number, data: any, headers: Record<string, string> = {}): AxiosError {
+  const config = { url: '/v2/checkout/orders', method: 'post', headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  return new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, {}, {
+    status,
+    statusText: '',
+    data,
+    headers,
+    config,
+  });
+}
+
+describe('toPayPalError', () => {
+  it.each([400, 422])('maps a %i response to InvalidParams with every issue listed', (status) => {
+    const error = toPayPalError(paypalError(status, {
+      name: 'UNPROCESSABLE_ENTITY',
+      message: 'The requested action could not be performed.',
+      debug_id: 'debug-1',
+      details: [
+        { field: '/purchase_units/@reference_id==\'default\'/amount/value', issue: 'DECIMAL_PRECISION', description: 'Too many decimal places.' },
+        { issue: 'AMOUNT_MISMATCH' },
+      ],
+      links: [
+        { href: 'https://developer.paypal.com/docs/api/orders/v2/#error-DECIMAL_PRECISION', rel: 'information_link', method: 'GET' },
+        { href: 'https://api-m.paypal.com/v2/checkout/orders/1/capture', rel: 'capture', method: 'POST' },
+      ],
+    }), 'Failed to create order');
+    
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    expect(error.message.split('\n')).toEqual([
+      expect.stringContaining(`Failed to create order: PayPal returned ${status} (UNPROCESSABLE_ENTITY): The requested action could not be performed.`),
+      '- /purchase_units/@reference_id==\'default\'/amount/value: DECIMAL_PRECISION - Too many decimal places.',
+      '- AMOUNT_MISMATCH',
+      'debug_id: debug-1',
+      'See: https://developer.paypal.com/docs/api/orders/v2/#error-DECIMAL_PRECISION',
+      'Hint: The amount has too many decimal places for its currency.',
+    ]);
+    expect((error as McpError).data).toMatchObject({
+      status,
+      name: 'UNPROCESSABLE_ENTITY',
+      debug_id: 'debug-1',
+      details: [expect.objectContaining({ issue: 'DECIMAL_PRECISION' }), { issue: 'AMOUNT_MISMATCH' }],
+    });
+  });
+  
+  it('falls back to the status hint and the debug ID header', () => {
+    const error = toPayPalError(paypalError(400, {
+      name: 'INVALID_REQUEST',
+      details: [{ field: 'intent', issue: 'MISSING_REQUIRED_PARAMETER' }],
+    }, { 'paypal-debug-id': 'debug-header' }), 'Failed to create order');
+    
+    expect(error.message).toContain('- intent: MISSING_REQUIRED_PARAMETER\n');
+    expect(error.message).toContain('debug_id: debug-header');
+    expect(error.message).toContain('Hint: Correct the listed fields and call the tool again.');
+  });
+  
+  it.each([
+    [401, PayPalAuthenticationError, 'PayPal authentication failed', 'PAYPAL_CLIENT_ID'],
+    [403, PayPalPermissionError, 'PayPal permission denied', 'not allowed to perform this operation'],
+    [404, PayPalNotFoundError, 'PayPal returned 404', 'Check the ID'],
+  ])('maps a %i response to its own error type', (status, ErrorType, kind, hint) => {
+    const error = toPayPalError(paypalError(status, { name: 'ERROR_NAME', message: 'Something failed', debug_id: 'debug-1' }), 'Failed to get order');
+    
+    expect(error).toBeInstanceOf(ErrorType);
+    expect(error).toMatchObject({ status, errorName: 'ERROR_NAME', debugId: 'debug-1', name: ErrorType.name });
+    expect(error.message).toMatch(new RegExp(`^Failed to get order: ${kind} \\(ERROR_NAME\\): Something failed\\n`));
+    expect(error.message).toContain(hint);
+  });
+  
+  it('reads the error fields of OAuth responses', () => {
+    const error = toPayPalError(paypalError(401, { error: 'invalid_client', error_description: 'Client Authentication failed' }), 'Failed to authenticate with PayPal API');
+    
+    expect(error).toBeInstanceOf(PayPalAuthenticationError);
+    expect(error.message).toContain('PayPal authentication failed (invalid_client): Client Authentication failed');
+  });
+  
+  it('prefers issue hints over status hints and covers other statuses', () => {
+    const conflict = toPayPalError(paypalError(409, {}), 'Failed to capture order');
+    const alreadyCaptured = toPayPalError(paypalError(422, { name: 'UNPROCESSABLE_ENTITY', details: [{ issue: 'ORDER_ALREADY_CAPTURED' }] }), 'Failed to capture order');
+    const serverError = toPayPalError(paypalError(503, 'Service Unavailable'), 'Failed to capture order');
+    
+    expect(conflict).toBeInstanceOf(PayPalApiError);
+    expect(conflict.message).toContain('Hint: The request conflicts with the current state of the resource.');
+    expect(alreadyCaptured.message).toContain('Hint: The order was already captured.');
+    expect(serverError).toMatchObject({ status: 503, details: [], links: [] });
+    expect(serverError.message).toContain('Hint: PayPal had an internal error.');
+  });
+  
+  it('describes requests that got no response', () => {
+    const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+    
+    const timeout = toPayPalError(new AxiosError('timeout of 30000ms exceeded', AxiosError.ECONNABORTED, config, {}), 'Failed to get order');
+    const network = toPayPalError(new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', config, {}), 'Failed to get order');
+    
+    expect(timeout.message).toBe('Failed to get order: PayPal did not respond in time');
+    expect(network.message).toBe('Failed to get order: connect ECONNREFUSED');
+    expect(timeout).not.toBeInstanceOf(PayPalApiError);
+  });
+  
+  it('returns errors raised by the tool itself unchanged', () => {
+    const mcpError = new McpError(ErrorCode.InvalidParams, 'Refund amount exceeds the refundable amount');
+    const apiError = new PayPalNotFoundError('Not found', 404, undefined, undefined, [], []);
+    
+    expect(toPayPalError(mcpError, 'Failed to refund capture')).toBe(mcpError);
+    expect(toPayPalError(apiError, 'Failed to refund capture')).toBe(apiError);
+    expect(toPayPalError(new Error('boom'), 'Failed to refund capture').message).toBe('Failed to refund capture: boom');
+    expect(toPayPalError('boom', 'Failed to refund capture').message).toBe('Failed to refund capture');
+  });
+});
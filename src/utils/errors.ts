@@ -0,0 +1,195 @@
+/**
+ * PayPal error translation for PayPal MCP Server
+ * 
+ * Turns failed PayPal API calls into typed errors whose messages keep what
+ * PayPal reported (error name, issues, field paths, debug_id and links) and
+ * add a hint about what to fix.
+ */
+
+import axios from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * A single issue from a PayPal error response
+ */
+export interface PayPalErrorDetail {
+  field?: string;
+  value?: string;
+  location?: string;
+  issue: string;
+  description?: string;
+}
+
+/**
+ * A link from a PayPal error response, usually to the error's documentation
+ */
+export interface PayPalErrorLink {
+  href: string;
+  rel?: string;
+  method?: string;
+}
+
+/**
+ * An error returned by the PayPal API
+ */
+export class PayPalApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | undefined,
+    public readonly errorName: string | undefined,
+    public readonly debugId: string | undefined,
+    public readonly details: PayPalErrorDetail[],
+    public readonly links: PayPalErrorLink[]
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * PayPal rejected the credentials or access token
+ */
+export class PayPalAuthenticationError extends PayPalApiError {}
+
+/**
+ * The credentials are valid but not allowed to perform the operation
+ */
+export class PayPalPermissionError extends PayPalApiError {}
+
+/**
+ * The requested resource does not exist
+ */
+export class PayPalNotFoundError extends PayPalApiError {}
+
+/**
+ * Hints for issues that have a known fix
+ */
+const ISSUE_HINTS: Record<string, string> = {
+  ORDER_NOT_APPROVED: 'The payer has not approved the order yet. Send them to the approve link first.',
+  ORDER_ALREADY_CAPTURED: 'The order was already captured. Use get_order to see the existing capture.',
+  ORDER_ALREADY_AUTHORIZED: 'The order was already authorized. Use get_order to see the existing authorization.',
+  PAYER_ACTION_REQUIRED: 'The payer must complete an action, such as 3D Secure. Send them to the payer-action link.',
+  INSTRUMENT_DECLINED: 'The payment method was declined. Ask the payer to choose a different payment method.',
+  AUTHORIZATION_EXPIRED: 'The authorization has expired. Reauthorize it or create a new order.',
+  DUPLICATE_INVOICE_ID: 'Another order or invoice already uses this invoice_id. Use a unique invoice_id.',
+  DUPLICATE_INVOICE_NUMBER: 'Another invoice already uses this invoice number. Use generate_invoice_number to get a new one.',
+  DECIMAL_PRECISION: 'The amount has too many decimal places for its currency.',
+  AMOUNT_MISMATCH: 'The amounts do not add up. The total must equal the sum of the breakdown.',
+  CURRENCY_NOT_SUPPORTED_FOR_RECIPIENT: 'The recipient cannot receive this currency.',
+  INSUFFICIENT_FUNDS: 'The account does not have enough balance for this payout or refund.',
+  SUBSCRIPTION_STATUS_INVALID: 'The subscription is not in a state that allows this action. Use get_subscription to check its status.',
+  PLAN_STATUS_INVALID: 'The plan is not in a state that allows this action. Use get_plan to check its status.',
+  PERMISSION_DENIED: 'The app is not allowed to perform this action. Enable the feature for the app in the PayPal developer dashboard.',
+};
+
+/**
+ * Hint for an error, preferring issue-specific hints over status hints
+ */
+function getHint(status: number | undefined, errorName: string | undefined, details: PayPalErrorDetail[]): string | undefined {
+  const issueHint = [errorName, ...details.map(detail => detail.issue)]
+    .map(issue => issue && ISSUE_HINTS[issue])
+    .find(Boolean);
+  if (issueHint) {
+    return issueHint;
+  }
+
+  switch (status) {
+    case 400:
+    case 422:
+      return 'Correct the listed fields and call the tool again.';
+    case 401:
+      return 'Check PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET and that they belong to the configured PAYPAL_ENVIRONMENT.';
+    case 403:
+      return 'The app credentials are not allowed to perform this operation. Enable the feature for the app in the PayPal developer dashboard or use an account that has access.';
+    case 404:
+      return 'Check the ID. Resources created in the sandbox do not exist in live, and vice versa.';
+    case 409:
+      return 'The request conflicts with the current state of the resource. Fetch it and try again.';
+    case 429:
+      return 'PayPal is rate limiting requests. Wait before calling the tool again.';
+    default:
+      return status !== undefined && status >= 500
+        ? 'PayPal had an internal error. Try again later, and quote the debug_id if you contact PayPal support.'
+        : undefined;
+  }
+}
+
+/**
+ * Convert an error from a PayPal API call into an error that describes it
+ * 
+ * Validation failures become MCP InvalidParams errors. Authentication,
+ * permission and not found failures get their own types, and other PayPal
+ * errors become a PayPalApiError. MCP errors raised by the tool itself are
+ * returned unchanged.
+ * 
+ * @param error - The caught error
+ * @param context - What failed, e.g. "Failed to create order"
+ */
+export function toPayPalError(error: unknown, context: string): Error {
+  if (error instanceof McpError || error instanceof PayPalApiError) {
+    return error;
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new Error(error instanceof Error ? `${context}: ${error.message}` : context);
+  }
+
+  if (!error.response) {
+    // The request never got an answer, e.g. a timeout or a network error
+    return new Error(`${context}: ${error.code === 'ECONNABORTED' ? 'PayPal did not respond in time' : error.message}`);
+  }
+
+  const status = error.response.status;
+  const body: Record<string, any> = typeof error.response.data === 'object' && error.response.data ? error.response.data : {};
+
+  // OAuth endpoints report errors as error and error_description
+  const errorName: string | undefined = body.name || body.error;
+  const description: string | undefined = body.message || body.error_description;
+  const debugId: string | undefined = body.debug_id || error.response.headers?.['paypal-debug-id'];
+  const details: PayPalErrorDetail[] = Array.isArray(body.details) ? body.details : [];
+  const links: PayPalErrorLink[] = Array.isArray(body.links) ? [...body.links] : [];
+  if (body.information_link) {
+    links.push({ href: body.information_link, rel: 'information_link' });
+  }
+
+  const kind = status === 401 ? 'PayPal authentication failed'
+    : status === 403 ? 'PayPal permission denied'
+    : `PayPal returned ${status}`;
+
+  const lines = [
+    `${context}: ${kind}${errorName ? ` (${errorName})` : ''}${description ? `: ${description}` : ''}`,
+  ];
+  for (const detail of details) {
+    const field = detail.field ? `${detail.field}: ` : '';
+    lines.push(`- ${field}${detail.issue}${detail.description ? ` - ${detail.description}` : ''}`);
+  }
+  if (debugId) {
+    lines.push(`debug_id: ${debugId}`);
+  }
+  const docs = links.filter(link => !link.method || link.method === 'GET').map(link => link.href);
+  if (docs.length > 0) {
+    lines.push(`See: ${docs.join(', ')}`);
+  }
+  const hint = getHint(status, errorName, details);
+  if (hint) {
+    lines.push(`Hint: ${hint}`);
+  }
+  const message = lines.join('\n');
+
+  if (status === 400 || status === 422) {
+    return new McpError(ErrorCode.InvalidParams, message, {
+      status,
+      name: errorName,
+      debug_id: debugId,
+      details,
+      links,
+    });
+  }
+
+  const ErrorType = status === 401 ? PayPalAuthenticationError
+    : status === 403 ? PayPalPermissionError
+    : status === 404 ? PayPalNotFoundError
+    : PayPalApiError;
+
+  return new ErrorType(message, status, errorName, debugId, details, links);
+}
@@ -2,9 +2,18 @@
  * Logger utility for PayPal MCP Server
  * 
  * Provides a centralized logging mechanism with configurable log levels.
+ * Logs are written to stderr, or to a log file when one is configured, because
+ * stdout carries the MCP protocol on the stdio transport. Each entry can be
+ * plain text or a JSON line, and carries the correlation ID of the tool call
+ * it belongs to.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { createWriteStream, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import axios from 'axios';
 import { config } from '../config.js';
+import { sanitizeForLogging } from './sanitize.js';
 
 /**
  * Log levels with numeric values for comparison
@@ -22,31 +31,102 @@ const LOG_LEVELS = {
 const currentLevel = LOG_LEVELS[config.server.logLevel];
 
 /**
- * Format a log message with timestamp and level
+ * Fields attached to every entry logged within a context, such as a tool call
+ */
+export type LogContext = Record<string, string>;
+
+/**
+ * Context of the tool call being handled, if any
+ */
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Where log entries are written
+ */
+const output: NodeJS.WritableStream = config.server.logFile
+  ? (() => {
+      mkdirSync(dirname(config.server.logFile), { recursive: true });
+      return createWriteStream(config.server.logFile, { flags: 'a' });
+    })()
+  : process.stderr;
+
+/**
+ * Reduce an argument to plain data that is safe to log
+ * 
+ * Axios errors carry the request headers, including the access token, so
+ * only the parts useful for diagnosing the failure are kept.
+ */
+function toLoggable(arg: any): any {
+  if (axios.isAxiosError(arg)) {
+    return {
+      message: arg.message,
+      code: arg.code,
+      method: arg.config?.method?.toUpperCase(),
+      url: arg.config?.url,
+      status: arg.response?.status,
+      debug_id: arg.response?.headers?.['paypal-debug-id'] || arg.response?.data?.debug_id,
+      data: sanitizeForLogging(arg.response?.data),
+    };
+  }
+  
+  if (arg instanceof Error) {
+    return { name: arg.name, message: arg.message, stack: arg.stack };
+  }
+  
+  return sanitizeForLogging(arg);
+}
+
+/**
+ * Serialize a value as JSON, falling back to its string form
+ */
+function stringify(value: any, indent?: number): string {
+  try {
+    return JSON.stringify(value, null, indent);
+  } catch (e) {
+    return String(value);
+  }
+}
+
+/**
+ * Format a log message with timestamp, level and context
  */
 function formatLogMessage(level: string, message: string, ...args: any[]): string {
   const timestamp = new Date().toISOString();
-  let formattedMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
+  const context = contextStorage.getStore() || {};
+  const data = args.map(toLoggable);
+  
+  if (config.server.logFormat === 'json') {
+    return stringify({
+      timestamp,
+      level,
+      message,
+      ...context,
+      ...(data.length === 1 ? { data: data[0] } : data.length > 1 ? { data } : {}),
+    });
+  }
+  
+  const contextLabel = Object.values(context).map(value => ` [${value}]`).join('');
+  let formattedMessage = `[${timestamp}] [${level.toUpperCase()}]${contextLabel} ${message}`;
   
-  if (args.length > 0) {
-    formattedMessage += ' ' + args.map(arg => {
-      if (arg instanceof Error) {
-        return `${arg.message}\n${arg.stack}`;
-      } else if (typeof arg === 'object') {
-        try {
-          return JSON.stringify(arg, null, 2);
-        } catch (e) {
-          return String(arg);
-        }
-      } else {
-        return String(arg);
+  if (data.length > 0) {
+    formattedMessage += ' ' + data.map(value => {
+      if (typeof value === 'object' && value !== null) {
+        return value.stack ? `${value.message}\n${value.stack}` : stringify(value, 2);
       }
+      return String(value);
     }).join(' ');
   }
   
   return formattedMessage;
 }
 
+/**
+ * Write a single log entry
+ */
+function write(level: string, message: string, args: any[]): void {
+  output.write(formatLogMessage(level, message, ...args) + '\n');
+}
+
 /**
  * Logger implementation
  */
@@ -56,7 +136,7 @@ export const logger = {
    */
   error(message: string, ...args: any[]): void {
     if (currentLevel >= LOG_LEVELS.error) {
-      console.error(formatLogMessage('error', message, ...args));
+      write('error', message, args);
     }
   },
 
@@ -65,7 +145,7 @@ export const logger = {
    */
   warn(message: string, ...args: any[]): void {
     if (currentLevel >= LOG_LEVELS.warn) {
-      console.warn(formatLogMessage('warn', message, ...args));
+      write('warn', message, args);
     }
   },
 
@@ -74,7 +154,7 @@ export const logger = {
    */
   info(message: string, ...args: any[]): void {
     if (currentLevel >= LOG_LEVELS.info) {
-      console.info(formatLogMessage('info', message, ...args));
+      write('info', message, args);
     }
   },
 
@@ -83,7 +163,15 @@ export const logger = {
    */
   debug(message: string, ...args: any[]): void {
     if (currentLevel >= LOG_LEVELS.debug) {
-      console.debug(formatLogMessage('debug', message, ...args));
+      write('debug', message, args);
     }
   },
+
+  /**
+   * Run a function with fields, such as a correlation ID, attached to every
+   * entry it logs, including from the asynchronous work it starts
+   */
+  withContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+  },
 };
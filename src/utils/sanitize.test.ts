@@ -0,0 +1,26 @@
+import { sanitizeForLogging } from './sanitize.js';
+
+describe('sanitizeForLogging', () => {
+  it('masks sensitive fields at any depth without changing the input', () => {
+    const data = {
+      client_secret: 'secret-1',
+      headers: { Authorization: 'Bearer token-1' },
+      payment_source: { card: { number: '4111111111111111', security_code: '123', name: 'Jane Doe' } },
+      items: [{ name: 'Book', token: 'token-2' }],
+    };
+    
+    expect(sanitizeForLogging(data)).toEqual({
+      client_secret: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]' },
+      payment_source: { card: { number: '[REDACTED]', security_code: '[REDACTED]', name: 'Jane Doe' } },
+      items: [{ name: 'Book', token: '[REDACTED]' }],
+    });
+    expect(data.payment_source.card.number).toBe('4111111111111111');
+  });
+  
+  it('returns values that are not objects unchanged', () => {
+    expect(sanitizeForLogging('text')).toBe('text');
+    expect(sanitizeForLogging(42)).toBe(42);
+    expect(sanitizeForLogging(null)).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Sanitize utility for PayPal MCP Server
+ * 
+ * Masks credentials and card data before they are written to the log.
+ */
+
+/**
+ * Sanitize sensitive data for logging
+ * 
+ * @param data - The data to sanitize
+ * @returns Sanitized data with sensitive fields masked
+ */
+export function sanitizeForLogging(data: any): any {
+  if (!data || typeof data !== 'object') {
+    return data;
+  }
+  
+  const sensitiveFields = [
+    'client_secret',
+    'clientSecret',
+    'secret',
+    'password',
+    'security_code',
+    'cvv',
+    'cvv2',
+    'card_number',
+    'number',
+    'access_token',
+    'refresh_token',
+    'token',
+    'authorization',
+  ];
+  
+  const result = Array.isArray(data) ? [...data] : { ...data };
+  
+  for (const key in result) {
+    if (sensitiveFields.includes(key.toLowerCase())) {
+      result[key] = '[REDACTED]';
+    } else if (typeof result[key] === 'object' && result[key] !== null) {
+      result[key] = sanitizeForLogging(result[key]);
+    }
+  }
+  
+  return result;
+}
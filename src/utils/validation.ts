@@ -12,6 +12,9 @@ import { logger } from './logger.js';
 import { paymentSchemas } from '../schemas/payment.schemas.js';
 import { businessSchemas } from '../schemas/business.schemas.js';
 import { userSchemas } from '../schemas/user.schemas.js';
+import { disputeSchemas } from '../schemas/dispute.schemas.js';
+import { reportingSchemas } from '../schemas/reporting.schemas.js';
+import { webhookSchemas } from '../schemas/webhook.schemas.js';
 
 /**
  * Map of tool names to their validation schemas
@@ -19,19 +22,100 @@ import { userSchemas } from '../schemas/user.schemas.js';
 const schemaMap: Record<string, z.ZodType<any>> = {
   // Payment schemas
   create_payment_token: paymentSchemas.createPaymentTokenSchema,
+  create_setup_token: paymentSchemas.createSetupTokenSchema,
+  get_setup_token: paymentSchemas.getSetupTokenSchema,
+  create_payment_token_from_setup_token: paymentSchemas.createPaymentTokenFromSetupTokenSchema,
+  list_payment_tokens: paymentSchemas.listPaymentTokensSchema,
+  get_payment_token: paymentSchemas.getPaymentTokenSchema,
+  delete_payment_token: paymentSchemas.deletePaymentTokenSchema,
   create_order: paymentSchemas.createOrderSchema,
   capture_order: paymentSchemas.captureOrderSchema,
+  get_order: paymentSchemas.getOrderSchema,
+  update_order: paymentSchemas.updateOrderSchema,
+  authorize_order: paymentSchemas.authorizeOrderSchema,
+  confirm_payment_source: paymentSchemas.confirmPaymentSourceSchema,
+  add_tracking: paymentSchemas.addTrackingSchema,
+  add_tracking_bulk: paymentSchemas.addTrackingBulkSchema,
+  update_tracking: paymentSchemas.updateTrackingSchema,
+  get_authorization: paymentSchemas.getAuthorizationSchema,
+  capture_authorization: paymentSchemas.captureAuthorizationSchema,
+  reauthorize_authorization: paymentSchemas.reauthorizeAuthorizationSchema,
+  void_authorization: paymentSchemas.voidAuthorizationSchema,
+  refund_capture: paymentSchemas.refundCaptureSchema,
+  get_refund: paymentSchemas.getRefundSchema,
   create_payment: paymentSchemas.createPaymentSchema,
+  execute_payment: paymentSchemas.executePaymentSchema,
+  get_payment: paymentSchemas.getPaymentSchema,
+  list_payments: paymentSchemas.listPaymentsSchema,
+  get_sale: paymentSchemas.getSaleSchema,
+  refund_sale: paymentSchemas.refundSaleSchema,
   create_subscription: paymentSchemas.createSubscriptionSchema,
+  get_subscription: paymentSchemas.getSubscriptionSchema,
+  suspend_subscription: paymentSchemas.suspendSubscriptionSchema,
+  activate_subscription: paymentSchemas.activateSubscriptionSchema,
+  cancel_subscription: paymentSchemas.cancelSubscriptionSchema,
+  revise_subscription: paymentSchemas.reviseSubscriptionSchema,
+  list_subscription_transactions: paymentSchemas.listSubscriptionTransactionsSchema,
   
   // Business schemas
   create_product: businessSchemas.createProductSchema,
+  list_products: businessSchemas.listProductsSchema,
+  update_product: businessSchemas.updateProductSchema,
   create_invoice: businessSchemas.createInvoiceSchema,
+  send_invoice: businessSchemas.sendInvoiceSchema,
+  remind_invoice: businessSchemas.remindInvoiceSchema,
+  cancel_invoice: businessSchemas.cancelInvoiceSchema,
+  record_invoice_payment: businessSchemas.recordInvoicePaymentSchema,
+  delete_invoice_payment: businessSchemas.deleteInvoicePaymentSchema,
+  record_invoice_refund: businessSchemas.recordInvoiceRefundSchema,
+  generate_invoice_number: businessSchemas.generateInvoiceNumberSchema,
+  list_invoices: businessSchemas.listInvoicesSchema,
+  search_invoices: businessSchemas.searchInvoicesSchema,
+  create_invoice_template: businessSchemas.createInvoiceTemplateSchema,
+  list_invoice_templates: businessSchemas.listInvoiceTemplatesSchema,
+  get_invoice_template: businessSchemas.getInvoiceTemplateSchema,
+  update_invoice_template: businessSchemas.updateInvoiceTemplateSchema,
+  delete_invoice_template: businessSchemas.deleteInvoiceTemplateSchema,
   create_payout: businessSchemas.createPayoutSchema,
+  import_payouts_csv: businessSchemas.importPayoutsCsvSchema,
+  get_payout_batch: businessSchemas.getPayoutBatchSchema,
+  get_payout_item: businessSchemas.getPayoutItemSchema,
+  cancel_unclaimed_payout_item: businessSchemas.cancelUnclaimedPayoutItemSchema,
+  create_plan: businessSchemas.createPlanSchema,
+  list_plans: businessSchemas.listPlansSchema,
+  get_plan: businessSchemas.getPlanSchema,
+  update_plan_pricing: businessSchemas.updatePlanPricingSchema,
+  activate_plan: businessSchemas.activatePlanSchema,
+  deactivate_plan: businessSchemas.deactivatePlanSchema,
   
   // User schemas
   get_userinfo: userSchemas.getUserInfoSchema,
   create_web_profile: userSchemas.createWebProfileSchema,
+  
+  // Dispute schemas
+  list_disputes: disputeSchemas.listDisputesSchema,
+  get_dispute: disputeSchemas.getDisputeSchema,
+  accept_dispute_claim: disputeSchemas.acceptDisputeClaimSchema,
+  make_dispute_offer: disputeSchemas.makeDisputeOfferSchema,
+  send_dispute_message: disputeSchemas.sendDisputeMessageSchema,
+  escalate_dispute: disputeSchemas.escalateDisputeSchema,
+  provide_dispute_evidence: disputeSchemas.provideDisputeEvidenceSchema,
+  
+  // Reporting schemas
+  search_transactions: reportingSchemas.searchTransactionsSchema,
+  get_balances: reportingSchemas.getBalancesSchema,
+  export_transactions: reportingSchemas.exportTransactionsSchema,
+  
+  // Webhook schemas
+  create_webhook: webhookSchemas.createWebhookSchema,
+  list_webhooks: webhookSchemas.listWebhooksSchema,
+  get_webhook: webhookSchemas.getWebhookSchema,
+  update_webhook: webhookSchemas.updateWebhookSchema,
+  delete_webhook: webhookSchemas.deleteWebhookSchema,
+  list_webhook_event_types: webhookSchemas.listWebhookEventTypesSchema,
+  simulate_webhook_event: webhookSchemas.simulateWebhookEventSchema,
+  list_webhook_events: webhookSchemas.listWebhookEventsSchema,
+  get_webhook_event: webhookSchemas.getWebhookEventSchema,
 };
 
 /**
@@ -70,40 +154,25 @@ export function validateInput(toolName: string, args: any): any {
 }
 
 /**
- * Sanitize sensitive data for logging
- * 
- * @param data - The data to sanitize
- * @returns Sanitized data with sensitive fields masked
+ * Idempotency key accepted by tools that create or change something
+ */
+const idempotencyKeySchema = z.string().regex(/^[A-Za-z0-9_.:-]{1,64}$/, 'must be 1-64 letters, digits, or _ . : - characters');
+
+/**
+ * Validate an idempotency key supplied with a tool call
  */
-export function sanitizeForLogging(data: any): any {
-  if (!data || typeof data !== 'object') {
-    return data;
+export function validateIdempotencyKey(toolName: string, key: unknown): string | undefined {
+  if (key === undefined) {
+    return undefined;
   }
   
-  const sensitiveFields = [
-    'client_secret',
-    'clientSecret',
-    'secret',
-    'password',
-    'security_code',
-    'cvv',
-    'cvv2',
-    'card_number',
-    'number',
-    'access_token',
-    'refresh_token',
-    'token',
-  ];
-  
-  const result = Array.isArray(data) ? [...data] : { ...data };
-  
-  for (const key in result) {
-    if (sensitiveFields.includes(key.toLowerCase())) {
-      result[key] = '[REDACTED]';
-    } else if (typeof result[key] === 'object' && result[key] !== null) {
-      result[key] = sanitizeForLogging(result[key]);
-    }
+  const result = idempotencyKeySchema.safeParse(key);
+  if (!result.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters for ${toolName}: idempotency_key: ${result.error.errors[0].message}`
+    );
   }
   
-  return result;
+  return result.data;
 }